@@ -0,0 +1,124 @@
+import { describe, expect, test } from "vitest"
+import {
+  apiDiagnostics,
+  ApiReport,
+  compareApi,
+  extractApi,
+  suggestBump,
+} from "./api.js"
+
+describe("extractApi", () => {
+  test("extract kinds and signatures of exported names", () => {
+    const api = extractApi(
+      "/src/index.ts",
+      `import { Readable } from "node:stream";\n` +
+        `export * from "pkg";\n` +
+        `/** Options. */\n` +
+        `interface Options {\n\t/** Input. */\n\tinput: Readable;\n}\n` +
+        `declare function open(options: Options): Readable;\n` +
+        `declare function open(path: string): Readable;\n` +
+        `declare const a: number, b: string;\n` +
+        `type Options$1 = Options;\n` +
+        `export { open, a, Options$1 as Base, Options, Readable };\n`,
+    )
+    expect(api).toEqual({
+      '* from "pkg"': { kind: "reexport", signature: `export * from "pkg"` },
+      Base: { kind: "type", signature: "type Base = Options;" },
+      Options: {
+        kind: "interface",
+        signature: "interface Options { input: Readable; }",
+      },
+      Readable: { kind: "reexport", signature: `Readable from "node:stream"` },
+      a: { kind: "variable", signature: "const a: number" },
+      open: {
+        kind: "function",
+        signature:
+          "function open(options: Options): Readable; " +
+          "function open(path: string): Readable;",
+      },
+    })
+    expect(Object.keys(api)).toEqual([
+      `* from "pkg"`,
+      "Base",
+      "Options",
+      "Readable",
+      "a",
+      "open",
+    ])
+  })
+
+  test("refer to renamed names by their public names", () => {
+    const api = extractApi(
+      "/src/index.ts",
+      `interface Options {\n\tname: string;\n}\n` +
+        `interface Options$1 {\n\tvalue: Options$2;\n}\n` +
+        `type Options$2 = number;\n` +
+        `type Both = Options & Options$1;\n` +
+        `export { Options$1 as Options, Options as Base, Both };\n`,
+    )
+    expect(api).toEqual({
+      Base: {
+        kind: "interface",
+        signature: "interface Base { name: string; }",
+      },
+      Both: { kind: "type", signature: "type Both = Base & Options;" },
+      Options: {
+        kind: "interface",
+        signature: "interface Options { value: Options; }",
+      },
+    })
+  })
+})
+
+describe("compareApi", () => {
+  const previous: ApiReport = {
+    ".": {
+      a: { kind: "variable", signature: "const a: number" },
+      b: { kind: "function", signature: "function b(): void;" },
+    },
+  }
+
+  test("classify added, removed and changed names", () => {
+    const changes = compareApi(previous, {
+      ".": {
+        a: { kind: "variable", signature: "const a: string" },
+        c: { kind: "class", signature: "class c {}" },
+      },
+    })
+    expect(changes.map(({ name, type }) => [name, type])).toEqual([
+      ["a", "changed"],
+      ["b", "removed"],
+      ["c", "added"],
+    ])
+    expect(suggestBump(changes)).toBe("major")
+  })
+
+  test("suggest semver bumps", () => {
+    expect(suggestBump(compareApi(previous, previous))).toBe("patch")
+    const added = compareApi(previous, {
+      ".": previous["."],
+      "./extra": { c: { kind: "class", signature: "class c {}" } },
+    })
+    expect(added).toMatchObject([{ entry: "./extra", type: "added" }])
+    expect(suggestBump(added)).toBe("minor")
+  })
+
+  test("report changes inside the committed report", () => {
+    const text = JSON.stringify(previous, null, 2) + "\n"
+    const changes = compareApi(previous, {
+      ".": {
+        a: previous["."].a,
+        c: { kind: "class", signature: "class c {}" },
+      },
+    })
+    const diagnostics = apiDiagnostics("/api.json", text, changes, "error")
+    expect(diagnostics).toMatchObject([
+      {
+        line: 7,
+        severity: "error",
+        message: `Removed function "b" of "."`,
+      },
+      { line: 2, severity: "advice", message: `Added class "c" of "."` },
+    ])
+  })
+})
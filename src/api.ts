@@ -0,0 +1,253 @@
+import { bindings, nameOf } from "@/ast.ts"
+import { createDiagnostic, Diagnostic } from "@/diagnostics.ts"
+import { Comment, parseSync } from "oxc-parser"
+
+/** An exported name of an entry, see {@link extractApi}. */
+export type ApiExport = {
+  kind: string
+  /** Declarations of the name with comments and whitespace normalized. */
+  signature: string
+}
+
+/** Exported names of each entry keyed by subpaths, sorted for stability. */
+export type ApiReport = Record<string, Record<string, ApiExport>>
+
+/** How an exported name changed between two API reports. */
+export type ApiChange = {
+  entry: string
+  name: string
+  type: "added" | "removed" | "changed"
+  previous?: ApiExport
+  current?: ApiExport
+}
+
+export type SemverBump = "major" | "minor" | "patch"
+
+const verbs = { added: "Added", removed: "Removed", changed: "Changed" }
+
+const kinds: Record<string, string> = {
+  TSDeclareFunction: "function",
+  FunctionDeclaration: "function",
+  ClassDeclaration: "class",
+  TSInterfaceDeclaration: "interface",
+  TSTypeAliasDeclaration: "type",
+  TSEnumDeclaration: "enum",
+  TSModuleDeclaration: "namespace",
+  VariableDeclaration: "variable",
+}
+
+/** Text of the code between start and end without comments and newlines. */
+function normalize(
+  code: string,
+  comments: Comment[],
+  start: number,
+  end: number,
+): string {
+  let text = ""
+  let last = start
+  for (const comment of comments) {
+    if (comment.start < start || comment.end > end) continue
+    text += code.slice(last, comment.start)
+    last = comment.end
+  }
+  text += code.slice(last, end)
+  return text.replace(/^declare\s+/, "").replace(/\s+/g, " ")
+}
+
+/**
+ * Extract the exported names of an entry from its bundled declarations,
+ * see {@link bundleDeclarations}.
+ *
+ * 1. Kinds are the kinds of the declarations, or "reexport"
+ *    for names imported from packages and star re-exports of them,
+ *    which are keyed by their sources, such as `* from "pkg"`.
+ * 2. Signatures are the declarations of the names joined,
+ *    such as all overloads of a function,
+ *    with the local names replaced by the exported ones,
+ *    and names renamed when bundling by their public names.
+ * 3. Comments are not part of the API, so documentation changes are ignored.
+ *
+ * @param file path to the declaration file, to parse it as.
+ * @param code content of the bundled declaration file.
+ */
+export function extractApi(
+  file: string,
+  code: string,
+): Record<string, ApiExport> {
+  const { program, comments } = parseSync(file, code, { lang: "dts" })
+  const declarations = new Map<string, ApiExport[]>()
+  const declare = (name: string, value: ApiExport) =>
+    declarations.set(name, [...(declarations.get(name) || []), value])
+  const exports = new Map<string, string>()
+  const api: Record<string, ApiExport> = {}
+
+  for (const node of program.body) {
+    switch (node.type) {
+      case "ImportDeclaration":
+        for (const specifier of node.specifiers) {
+          const imported =
+            specifier.type === "ImportDefaultSpecifier"
+              ? "default"
+              : specifier.type === "ImportNamespaceSpecifier"
+                ? "*"
+                : nameOf(specifier.imported)
+          const from = JSON.stringify(node.source.value)
+          declare(specifier.local.name, {
+            kind: "reexport",
+            signature: `${imported} from ${from}`,
+          })
+        }
+        break
+
+      case "ExportAllDeclaration": {
+        const from = JSON.stringify(node.source.value)
+        api[`* from ${from}`] = {
+          kind: "reexport",
+          signature: `export * from ${from}`,
+        }
+        break
+      }
+
+      case "ExportNamedDeclaration":
+        for (const specifier of node.specifiers) {
+          exports.set(nameOf(specifier.exported), nameOf(specifier.local))
+        }
+        break
+
+      case "VariableDeclaration":
+        for (const declarator of node.declarations) {
+          const { start, end } = declarator
+          const signature = normalize(code, comments, start, end)
+          for (const name of bindings(declarator.id)) {
+            declare(name, {
+              kind: "variable",
+              signature: `${node.kind} ${signature}`,
+            })
+          }
+        }
+        break
+
+      default: {
+        const kind = kinds[node.type]
+        if (!kind || !("id" in node) || !node.id) break
+        if (node.id.type === "TSQualifiedName") break
+        const signature = normalize(code, comments, node.start, node.end)
+        declare(nameOf(node.id), { kind, signature })
+      }
+    }
+  }
+
+  // Names renamed when bundling are referred by their public names,
+  // or without the suffixes when not exported, to be stable.
+  const publicNames = new Map<string, string>()
+  for (const [exported, local] of exports) {
+    if (!publicNames.has(local)) publicNames.set(local, exported)
+  }
+  for (const local of declarations.keys()) {
+    const base = local.replace(/\$\d+$/, "")
+    if (base !== local && !publicNames.has(local)) {
+      publicNames.set(local, base)
+    }
+  }
+  const rename = (signature: string, local: string, exported: string) => {
+    let declared = false
+    return signature.replace(/[\w$]+/g, (name) => {
+      if (declared || name !== local) return publicNames.get(name) || name
+      declared = true
+      return exported
+    })
+  }
+
+  for (const [exported, local] of exports) {
+    const found = declarations.get(local)
+    if (!found) continue
+    api[exported] = {
+      kind: found[0].kind,
+      signature: found
+        .map(({ kind, signature }) =>
+          kind === "reexport" ? signature : rename(signature, local, exported),
+        )
+        .join(" "),
+    }
+  }
+  return Object.fromEntries(
+    Object.entries(api).sort(([a], [b]) => (a < b ? -1 : 1)),
+  )
+}
+
+/**
+ * Compare two API reports by exported names of each entry.
+ * Names of entries added or removed are all added or removed.
+ *
+ * @param previous the API report committed before.
+ * @param current the API report extracted from the sources.
+ */
+export function compareApi(
+  previous: ApiReport,
+  current: ApiReport,
+): ApiChange[] {
+  const changes: ApiChange[] = []
+  const entries = new Set([...Object.keys(previous), ...Object.keys(current)])
+  for (const entry of [...entries].sort()) {
+    const before = previous[entry] || {}
+    const after = current[entry] || {}
+    const names = new Set([...Object.keys(before), ...Object.keys(after)])
+    for (const name of [...names].sort()) {
+      const [a, b] = [before[name], after[name]]
+      if (!a) changes.push({ entry, name, type: "added", current: b })
+      else if (!b) changes.push({ entry, name, type: "removed", previous: a })
+      else if (a.kind !== b.kind || a.signature !== b.signature) {
+        changes.push({ entry, name, type: "changed", previous: a, current: b })
+      }
+    }
+  }
+  return changes
+}
+
+/** Whether the change might break consumers of the package. */
+export function isBreaking(change: ApiChange): boolean {
+  return change.type !== "added"
+}
+
+/**
+ * Suggest a semver bump for the changes of the API.
+ * Removed and changed names are breaking, as consumers might depend on them,
+ * added names are features, and no changes at all suggest a patch.
+ *
+ * @param changes changes of the API, see {@link compareApi}.
+ */
+export function suggestBump(changes: ApiChange[]): SemverBump {
+  if (changes.some(isBreaking)) return "major"
+  return changes.length > 0 ? "minor" : "patch"
+}
+
+/**
+ * Diagnostics of the changes of the API report,
+ * pointing to the names inside the committed report if any.
+ *
+ * @param file path to the API report.
+ * @param text content of the committed API report.
+ * @param changes changes of the API, see {@link compareApi}.
+ * @param severity severity of breaking changes.
+ */
+export function apiDiagnostics(
+  file: string,
+  text: string,
+  changes: ApiChange[],
+  severity: Diagnostic["severity"],
+): Diagnostic[] {
+  return changes.map((change) => {
+    const { entry, name, type, previous, current } = change
+    const key = text.indexOf(`\n  ${JSON.stringify(entry)}: {`)
+    const at =
+      key < 0 ? -1 : text.indexOf(`\n    ${JSON.stringify(name)}:`, key)
+    const offset = at >= 0 ? at + 1 : key >= 0 ? key + 1 : 0
+    const kind = (current || previous)!.kind
+    const message = `${verbs[type]} ${kind} "${name}" of "${entry}"`
+    const level = isBreaking(change) ? severity : "advice"
+    const diagnostic = createDiagnostic(file, text, offset, message, level)
+    if (type !== "changed") return diagnostic
+    const help = `Was: ${previous!.signature}\nNow: ${current!.signature}`
+    return { ...diagnostic, help }
+  })
+}
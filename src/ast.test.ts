@@ -0,0 +1,49 @@
+import { parseSync } from "oxc-parser"
+import { describe, expect, test } from "vitest"
+import { bindings, isStringLiteral, nameOf, varNames } from "./ast.js"
+
+describe("bindings", () => {
+  test("collect names bound by patterns", () => {
+    const { program } = parseSync(
+      "/src/a.js",
+      "const { a, b: [c, ...d], e = 1, ...f } = g",
+    )
+    const [statement] = program.body
+    if (statement.type !== "VariableDeclaration") throw new Error()
+    const names = bindings(statement.declarations[0].id)
+    expect(names).toEqual(["a", "c", "d", "e", "f"])
+  })
+})
+
+describe("varNames", () => {
+  test("collect names declared by var outside functions", () => {
+    const { program } = parseSync(
+      "/src/a.js",
+      "`${a}`\nif (b) { var c }\nfunction d() { var e }\nlet f",
+    )
+    expect(varNames(program.body)).toEqual(["c"])
+  })
+})
+
+describe("nameOf", () => {
+  test("name identifiers and string literals", () => {
+    const { program } = parseSync("/src/a.js", `export { a, b as "c-d" }`)
+    const [statement] = program.body
+    if (statement.type !== "ExportNamedDeclaration") throw new Error()
+    const names = statement.specifiers.map(({ exported }) => nameOf(exported))
+    expect(names).toEqual(["a", "c-d"])
+  })
+})
+
+describe("isStringLiteral", () => {
+  test("match string literals only", () => {
+    const { program } = parseSync("/src/a.js", `import("a"); import(1)`)
+    const sources = program.body.map((statement) =>
+      statement.type === "ExpressionStatement" &&
+      statement.expression.type === "ImportExpression"
+        ? statement.expression.source
+        : undefined,
+    )
+    expect(sources.map(isStringLiteral)).toEqual([true, false])
+  })
+})
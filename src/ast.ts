@@ -0,0 +1,283 @@
+import {
+  ArrowFunctionExpression,
+  BindingIdentifier,
+  Class,
+  Function as FunctionNode,
+  ModuleExportName,
+  Node,
+  Program,
+  StringLiteral,
+} from "oxc-parser"
+
+/** Identifiers of any kind, such as references, bindings and property keys. */
+export type Identifier = Extract<Node, { type: "Identifier" }>
+
+/**
+ * Occurrence of a top-level or global name inside the module code,
+ * formatted when replaced, such as the value of a shorthand property.
+ */
+export type Reference = {
+  name: string
+  start: number
+  end: number
+  format?: (name: string) => string
+}
+
+/** Name of an identifier, or value of a string literal such as `"a-b"`. */
+export function nameOf(node: ModuleExportName | BindingIdentifier): string {
+  return node.type === "Literal" ? node.value : node.name
+}
+
+/** Whether the node is a string literal, such as a module specifier. */
+export function isStringLiteral(
+  node: Node | null | undefined,
+): node is StringLiteral {
+  return node?.type === "Literal" && typeof node.value === "string"
+}
+
+/** Names of all identifiers bound by a declaration pattern. */
+export function bindings(pattern: Node | null | undefined): string[] {
+  switch (pattern?.type) {
+    case "Identifier":
+      return [pattern.name]
+    case "ObjectPattern":
+      return pattern.properties.flatMap((property) =>
+        bindings(property.type === "RestElement" ? property : property.value),
+      )
+    case "ArrayPattern":
+      return pattern.elements.flatMap(bindings)
+    case "RestElement":
+      return bindings(pattern.argument)
+    case "AssignmentPattern":
+      return bindings(pattern.left)
+    default:
+      return []
+  }
+}
+
+/** Names declared by var inside the node, hoisted to the function. */
+export function varNames(node: unknown): string[] {
+  if (Array.isArray(node)) return node.flatMap(varNames)
+  if (!node || typeof node !== "object") return []
+  const current = node as Node
+  // Values of nodes might be plain objects, such as those of templates.
+  const type: string = current.type ?? ""
+  if (type.includes("Function") || type.startsWith("Class")) return []
+  if (current.type === "VariableDeclaration") {
+    if (current.kind !== "var") return []
+    return current.declarations.flatMap((d) => bindings(d.id))
+  }
+  return Object.values(current).flatMap(varNames)
+}
+
+/** Names declared by let, const, functions and classes of the statements. */
+export function lexicalNames(statements: Node[]): string[] {
+  return statements.flatMap((statement) => {
+    const node =
+      statement.type === "ExportNamedDeclaration" ||
+      statement.type === "ExportDefaultDeclaration"
+        ? statement.declaration
+        : statement
+    switch (node?.type) {
+      case "VariableDeclaration":
+        if (node.kind === "var") return []
+        return node.declarations.flatMap((d) => bindings(d.id))
+      case "FunctionDeclaration":
+      case "ClassDeclaration":
+        return node.id ? [node.id.name] : []
+      default:
+        return []
+    }
+  })
+}
+
+/**
+ * Find occurrences of top-level and global names inside the program,
+ * skipping those shadowed by declarations of nested scopes.
+ * Declarations of top-level bindings are occurrences as well.
+ */
+export function analyzeScopes(program: Program): {
+  references: Reference[]
+  innerNames: Set<string>
+} {
+  const references: Reference[] = []
+  const innerNames = new Set<string>()
+  let scopes: Set<string>[] = []
+  let functions = 0
+
+  const reference = (
+    node: { name: string; start: number },
+    shorthand = false,
+  ) => {
+    const { name, start } = node
+    if (scopes.some((scope) => scope.has(name))) return
+    const end = start + name.length
+    const format = shorthand
+      ? (renamed: string) => `${name}: ${renamed}`
+      : undefined
+    references.push({ name, start, end, format })
+  }
+  const scoped = (names: string[], callback: () => void) => {
+    for (const name of names) innerNames.add(name)
+    scopes = [...scopes, new Set(names)]
+    callback()
+    scopes = scopes.slice(0, -1)
+  }
+  const shorthand = (value: Node) => {
+    if (value.type === "Identifier") return reference(value, true)
+    if (value.type !== "AssignmentPattern") return
+    shorthand(value.left)
+    visit(value.right)
+  }
+  // Identifiers of patterns are only visited when referring to outer names.
+  const pattern = (node: Node | null, refer: boolean): void => {
+    if (!node) return
+    switch (node.type) {
+      case "Identifier":
+        if (refer) reference(node)
+        return
+      case "ObjectPattern":
+        for (const property of node.properties) {
+          if (property.type === "RestElement") {
+            pattern(property.argument, refer)
+          } else if (property.shorthand && refer) {
+            shorthand(property.value)
+          } else {
+            if (property.computed) visit(property.key)
+            pattern(property.value, refer)
+          }
+        }
+        return
+      case "ArrayPattern":
+        for (const element of node.elements) pattern(element, refer)
+        return
+      case "RestElement":
+        pattern(node.argument, refer)
+        return
+      case "AssignmentPattern":
+        pattern(node.left, refer)
+        visit(node.right)
+        return
+      default:
+        visit(node)
+    }
+  }
+  const fn = (node: FunctionNode | ArrowFunctionExpression) => {
+    const { params } = node
+    const names = params.flatMap(bindings)
+    if (node.type !== "ArrowFunctionExpression") names.push("arguments")
+    if (node.type === "FunctionExpression" && node.id) names.push(node.id.name)
+    const { body } = node
+    const statements = body?.type === "BlockStatement" ? body.body : undefined
+    if (statements) {
+      names.push(...varNames(statements), ...lexicalNames(statements))
+    }
+    functions++
+    scoped(names, () => {
+      for (const param of params) pattern(param, false)
+      visit(statements || body)
+    })
+    functions--
+  }
+  const cls = (node: Class) => {
+    visit(node.decorators)
+    visit(node.superClass)
+    const names =
+      node.type === "ClassExpression" && node.id ? [node.id.name] : []
+    scoped(names, () => visit(node.body))
+  }
+  const visit = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      for (const item of value) visit(item)
+      return
+    }
+    if (!value || typeof value !== "object") return
+    const node = value as Node
+    switch (node.type) {
+      case "Identifier":
+        return reference(node)
+      case "FunctionDeclaration":
+        if (scopes.length === 0 && node.id) reference(node.id)
+        return fn(node)
+      case "FunctionExpression":
+      case "ArrowFunctionExpression":
+        return fn(node)
+      case "ClassDeclaration":
+        if (scopes.length === 0 && node.id) reference(node.id)
+        return cls(node)
+      case "ClassExpression":
+        return cls(node)
+      case "VariableDeclaration": {
+        const top = node.kind === "var" ? functions === 0 : scopes.length === 0
+        for (const declarator of node.declarations) {
+          pattern(declarator.id, top)
+          visit(declarator.init)
+        }
+        return
+      }
+      case "BlockStatement":
+        return scoped(lexicalNames(node.body), () => visit(node.body))
+      case "StaticBlock": {
+        const names = [...varNames(node.body), ...lexicalNames(node.body)]
+        functions++
+        scoped(names, () => visit(node.body))
+        functions--
+        return
+      }
+      case "ForStatement":
+      case "ForInStatement":
+      case "ForOfStatement": {
+        const head = node.type === "ForStatement" ? node.init : node.left
+        const names =
+          head?.type === "VariableDeclaration" && head.kind !== "var"
+            ? head.declarations.flatMap((d) => bindings(d.id))
+            : []
+        return scoped(names, () => visitChildren(node))
+      }
+      case "CatchClause":
+        return scoped(bindings(node.param), () => {
+          pattern(node.param, false)
+          visit(node.body)
+        })
+      case "SwitchStatement": {
+        visit(node.discriminant)
+        const { cases } = node
+        const names = lexicalNames(cases.flatMap((c) => c.consequent))
+        return scoped(names, () => visit(cases))
+      }
+      case "MemberExpression":
+        visit(node.object)
+        if (node.computed) visit(node.property)
+        return
+      case "Property":
+      case "MethodDefinition":
+      case "PropertyDefinition":
+      case "AccessorProperty":
+        if ("decorators" in node) visit(node.decorators)
+        if (node.computed) visit(node.key)
+        if ("shorthand" in node && node.shorthand) return shorthand(node.value)
+        return visit(node.value)
+      case "LabeledStatement":
+        return visit(node.body)
+      case "BreakStatement":
+      case "ContinueStatement":
+      case "MetaProperty":
+      case "ImportDeclaration":
+      case "ExportAllDeclaration":
+        return
+      case "ExportNamedDeclaration":
+      case "ExportDefaultDeclaration":
+        return visit(node.declaration)
+      default:
+        return visitChildren(node)
+    }
+  }
+  const visitChildren = (node: Node) => {
+    for (const child of Object.values(node)) {
+      if (child && typeof child === "object") visit(child)
+    }
+  }
+
+  visit(program.body)
+  return { references, innerNames }
+}
@@ -0,0 +1,81 @@
+import { describe, expect, test } from "vitest"
+import { addBanner, resolveBanner } from "./banner.js"
+import { decodeMappings, encodeMappings } from "./sourcemap.js"
+
+describe("resolveBanner", () => {
+  const options = { srcdir: "/project/src" }
+
+  test("apply a string to all sources", () => {
+    expect(resolveBanner("/project/src/a.ts", "/*! MIT */", options)).toBe(
+      "/*! MIT */",
+    )
+    expect(resolveBanner("/project/src/a.ts", undefined, options)).toBe(
+      undefined,
+    )
+  })
+
+  test("join texts of matching globs in order", () => {
+    const banner = { "**/*.ts": "/*! MIT */", "bin/*.ts": "// cli" }
+    expect(resolveBanner("/project/src/bin/main.ts", banner, options)).toBe(
+      "/*! MIT */\n// cli",
+    )
+    expect(resolveBanner("/project/src/a.ts", banner, options)).toBe(
+      "/*! MIT */",
+    )
+    expect(resolveBanner("/project/src/a.js", banner, options)).toBeUndefined()
+  })
+})
+
+describe("addBanner", () => {
+  const map = {
+    version: 3,
+    sources: ["a.ts"],
+    names: [],
+    mappings: encodeMappings([
+      [{ column: 0, source: 0, line: 1, sourceColumn: 0 }],
+    ]),
+  }
+
+  test("add banner and footer as their own lines", () => {
+    const result = addBanner("x;", "/*! MIT */", "//# end")
+    expect(result.code).toBe("/*! MIT */\nx;\n//# end\n")
+  })
+
+  test("shift the map by the lines of the banner", () => {
+    const result = addBanner("x;\n", "/**\n * MIT\n */", undefined, map)
+    expect(decodeMappings(result.map!.mappings)).toEqual([
+      [],
+      [],
+      [],
+      [{ column: 0, source: 0, line: 1, sourceColumn: 0 }],
+    ])
+  })
+
+  test("move the shebang of the banner first", () => {
+    const banner = "/*! MIT */\n#!/usr/bin/env node"
+    expect(addBanner("x;\n", banner, undefined).code).toBe(
+      "#!/usr/bin/env node\n/*! MIT */\nx;\n",
+    )
+    expect(addBanner("#!/usr/bin/env bun\nx;\n", banner, undefined).code).toBe(
+      "#!/usr/bin/env bun\n/*! MIT */\nx;\n",
+    )
+  })
+
+  test("keep the shebang as the first line", () => {
+    const shebang = {
+      ...map,
+      mappings: encodeMappings([
+        [],
+        [{ column: 0, source: 0, line: 1, sourceColumn: 0 }],
+      ]),
+    }
+    const code = "#!/usr/bin/env node\nx;\n"
+    const result = addBanner(code, "/*! MIT */", undefined, shebang)
+    expect(result.code).toBe("#!/usr/bin/env node\n/*! MIT */\nx;\n")
+    expect(decodeMappings(result.map!.mappings)).toEqual([
+      [],
+      [],
+      [{ column: 0, source: 0, line: 1, sourceColumn: 0 }],
+    ])
+  })
+})
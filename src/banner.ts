@@ -0,0 +1,72 @@
+import { FileOptions } from "@/config.ts"
+import { applyEdits, Edit } from "@/sourcemap.ts"
+import { minimatch } from "minimatch"
+import { relative, sep } from "node:path"
+import { SourceMap } from "oxc-transform"
+
+/** Text for all sources, or texts keyed by globs of sources. */
+export type BannerOption = string | Record<string, string>
+
+/**
+ * Resolve the banner or footer option for the source file.
+ *
+ * 1. A string applies to all sources.
+ * 2. Texts keyed by globs apply to sources matching them
+ *    relative to srcdir, all matched ones joined in order by newlines.
+ *
+ * @param file absolute path to the source file.
+ * @param option the banner or footer option.
+ * @param options options containing srcdir.
+ * @returns the text, or undefined if none applies.
+ */
+export function resolveBanner(
+  file: string,
+  option: BannerOption | undefined,
+  options: FileOptions,
+): string | undefined {
+  if (option === undefined || typeof option === "string") return option
+  const path = relative(options.srcdir || "src", file).replaceAll(sep, "/")
+  const texts = Object.entries(option)
+    .filter(([pattern]) => minimatch(path, pattern, { dot: true }))
+    .map(([, text]) => text)
+  return texts.length > 0 ? texts.join("\n") : undefined
+}
+
+/**
+ * Add the banner and footer to the generated code as their own lines,
+ * and shift the source map accordingly.
+ * The banner is inserted after the shebang of the code if any,
+ * so that the shebang stays the first line.
+ * A shebang line of the banner is moved to its start,
+ * or dropped when the code has its own.
+ *
+ * @param code the generated code.
+ * @param banner text to insert before the code, optional.
+ * @param footer text to append after the code, optional.
+ * @param map source map of the generated code, optional.
+ */
+export function addBanner(
+  code: string,
+  banner: string | undefined,
+  footer: string | undefined,
+  map?: SourceMap,
+): { code: string; map?: SourceMap } {
+  const edits: Edit[] = []
+  const lineEnd = (offset: number) =>
+    offset > 0 && code[offset - 1] !== "\n" ? "\n" : ""
+  if (banner !== undefined) {
+    const shebang = code.startsWith("#!")
+    const lines = banner.split("\n")
+    const index = lines.findIndex((line) => line.startsWith("#!"))
+    const [line] = index < 0 ? [] : lines.splice(index, 1)
+    if (line && !shebang) lines.unshift(line)
+    const start = shebang ? code.indexOf("\n") + 1 || code.length : 0
+    const text = `${lineEnd(start)}${lines.join("\n")}\n`
+    edits.push({ start, end: start, text })
+  }
+  if (footer !== undefined) {
+    const end = code.length
+    edits.push({ start: end, end, text: `${lineEnd(end)}${footer}\n` })
+  }
+  return applyEdits(code, edits, map)
+}
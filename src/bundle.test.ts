@@ -0,0 +1,176 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { afterEach, beforeEach, describe, expect, test } from "vitest"
+import { bundleModules, ModuleCode } from "./bundle.js"
+
+describe("bundleModules", () => {
+  let srcdir: string
+  let sources: Map<string, ModuleCode>
+
+  beforeEach(() => {
+    srcdir = join(mkdtempSync(join(tmpdir(), "library-pack-")), "src")
+    mkdirSync(join(srcdir, "lib"), { recursive: true })
+    sources = new Map()
+  })
+
+  afterEach(() => {
+    rmSync(join(srcdir, ".."), { recursive: true, force: true })
+  })
+
+  const write = (path: string, code: string) => {
+    writeFileSync(join(srcdir, path), code)
+    sources.set(join(srcdir, path), { code })
+  }
+  const bundle = (entries: Record<string, string> = { ".": "index.ts" }) => {
+    const result = bundleModules({ srcdir, entries }, sources)
+    const entry = Object.values(entries)[0]
+    return { ...result, ...result.bundles.get(join(srcdir, entry))! }
+  }
+
+  test("hoist modules and keep package imports", () => {
+    write(
+      "index.ts",
+      `import { join } from "node:path";\n` +
+        `import { base } from "./lib/base.ts";\n` +
+        `export * from "./lib/version.ts";\n` +
+        `export function path(name) {\n\treturn join(base, name);\n}\n`,
+    )
+    write(
+      "lib/base.ts",
+      `import { join } from "node:path";\n` +
+        `export const base = join("a", "b");\n`,
+    )
+    write("lib/version.ts", `export const version = "1.0.0";\n`)
+    const { code, inlined, diagnostics } = bundle()
+    expect(diagnostics).toEqual([])
+    expect(code).toBe(
+      `import { join } from "node:path";\n` +
+        `const base = join("a", "b");\n` +
+        `const version = "1.0.0";\n` +
+        `function path(name) {\n\treturn join(base, name);\n}\n` +
+        `export { path, version };\n`,
+    )
+    expect([...inlined].sort()).toEqual([
+      join(srcdir, "lib", "base.ts"),
+      join(srcdir, "lib", "version.ts"),
+    ])
+  })
+
+  test("rename colliding and captured names", () => {
+    write(
+      "index.ts",
+      `import { name as other, get } from "./lib/a.ts";\n` +
+        `export const name = other;\n` +
+        `export function read(value) {\n` +
+        `\tconst name$1 = value;\n\treturn [name$1, get()];\n}\n`,
+    )
+    write(
+      "lib/a.ts",
+      `export const name = "a";\n` +
+        `export function get() {\n\tconst get$1 = 1;\n\treturn get$1;\n}\n`,
+    )
+    const { code, diagnostics } = bundle()
+    expect(diagnostics).toEqual([])
+    expect(code).toBe(
+      `const name = "a";\n` +
+        `function get() {\n\tconst get$1 = 1;\n\treturn get$1;\n}\n` +
+        `const name$2 = name;\n` +
+        `function read(value) {\n` +
+        `\tconst name$1 = value;\n\treturn [name$1, get()];\n}\n` +
+        `export { name$2 as name, read };\n`,
+    )
+  })
+
+  test("declare namespaces and name default exports", () => {
+    write(
+      "index.ts",
+      `export * as shapes from "./lib/shapes.ts";\n` +
+        `export { default as area } from "./lib/area.ts";\n` +
+        `export default class {}\n`,
+    )
+    write("lib/shapes.ts", `export const circle = 1;\n`)
+    write("lib/area.ts", `export default (w, h) => w * h;\n`)
+    const { code } = bundle()
+    expect(code).toBe(
+      `const circle = 1;\n` +
+        `const shapes = Object.freeze({\n` +
+        `\t__proto__: null,\n\t[Symbol.toStringTag]: "Module",\n` +
+        `\tget "circle"() { return circle; },\n});\n` +
+        `const _default = (w, h) => w * h;\n` +
+        `class _default$1 {}\n` +
+        `export { shapes, _default as area, _default$1 as default };\n`,
+    )
+  })
+
+  test("keep dynamic imports and untransformed files", () => {
+    write(
+      "index.ts",
+      `import data from "./data.json" with { type: "json" };\n` +
+        `import "./style.css";\n` +
+        `export const lazy = () => import("./lib/lazy.ts");\n` +
+        `export { data };\n`,
+    )
+    write("lib/lazy.ts", `export const lazy = true;\n`)
+    writeFileSync(join(srcdir, "data.json"), "{}")
+    writeFileSync(join(srcdir, "style.css"), "")
+    const { code, inlined } = bundle()
+    expect(code).toBe(
+      `import data from "./data.json" with { type: "json" };\n` +
+        `import "./style.css";\n` +
+        `const lazy = () => import("./lib/lazy.ts");\n` +
+        `export { lazy, data };\n`,
+    )
+    expect(inlined.size).toBe(0)
+  })
+
+  test("keep static dependencies of dynamic imports", () => {
+    write(
+      "index.ts",
+      `import { a } from "./lib/a.ts";\n` +
+        `import "./lib/log.ts";\n` +
+        `export const load = () => import("./lib/b.ts");\n` +
+        `export { a };\n`,
+    )
+    write(
+      "lib/a.ts",
+      `import { b } from "./b.ts";\n` + `export const a = () => b;\n`,
+    )
+    write(
+      "lib/b.ts",
+      `import { a } from "./a.ts";\n` + `export const b = () => a;\n`,
+    )
+    write("lib/log.ts", `console.log("loaded");\n`)
+    const { code, inlined } = bundle()
+    expect(code).toBe(
+      `import { a } from "./lib/a.ts";\n` +
+        `console.log("loaded");\n` +
+        `const load = () => import("./lib/b.ts");\n` +
+        `export { load, a };\n`,
+    )
+    expect(inlined).toEqual(new Set([join(srcdir, "lib/log.ts")]))
+  })
+
+  test("report missing entries and exports", () => {
+    write(
+      "index.ts",
+      `import { missing } from "./lib/a.ts";\n` + `export const a = missing;\n`,
+    )
+    write("lib/a.ts", `export {};\n`)
+    const { diagnostics } = bundle()
+    expect(diagnostics).toMatchObject([
+      {
+        file: join(srcdir, "index.ts"),
+        severity: "error",
+        message: `"missing" is not exported by lib/a.ts`,
+      },
+    ])
+    const result = bundleModules(
+      { srcdir, entries: { ".": "none.ts" } },
+      sources,
+    )
+    expect(result.diagnostics[0].message).toBe("Entry not found: none.ts")
+    const none = bundleModules({ srcdir }, sources)
+    expect(none.diagnostics[0].message).toBe("Bundling requires entries")
+  })
+})
@@ -0,0 +1,370 @@
+import {
+  analyzeScopes,
+  isStringLiteral,
+  lexicalNames,
+  Reference,
+  varNames,
+} from "@/ast.ts"
+import { PackOptions } from "@/config.ts"
+import { Diagnostic } from "@/diagnostics.ts"
+import {
+  Binding,
+  exportSpecifiers,
+  LinkedModule,
+  linkModules,
+  linkStatement,
+  moduleOrder,
+  Origin,
+  relativeSpecifier,
+  remove,
+} from "@/link.ts"
+import { applyEdits, concatSourceMaps } from "@/sourcemap.ts"
+import { resolveLocalSpecifier } from "@/specifiers.ts"
+import { existsSync } from "node:fs"
+import { dirname, relative, resolve } from "node:path"
+import { ImportDeclaration, Node, parseSync, StringLiteral } from "oxc-parser"
+import { SourceMap } from "oxc-transform"
+
+/** ES module code transformed from a source file, with its source map. */
+export type ModuleCode = { code: string; map?: SourceMap }
+
+/** ES module code bundled from an entry, see {@link bundleModules}. */
+export type ModuleBundle = { code: string; map: SourceMap }
+
+/** An ES module to bundle, analyzed once for all entries importing it. */
+type BundleModule = LinkedModule & {
+  /** Specifiers of dynamic imports of local files, by their paths. */
+  dynamicImports: { start: number; end: number; path: string }[]
+  references: Reference[]
+  /** Names declared inside nested scopes, which may capture references. */
+  innerNames: Set<string>
+  /** Names referred without declarations, such as globals. */
+  globals: Set<string>
+}
+
+/** Literal specifiers of import expressions inside the node. */
+function dynamicImportSpecifiers(node: unknown): StringLiteral[] {
+  if (Array.isArray(node)) return node.flatMap(dynamicImportSpecifiers)
+  if (!node || typeof node !== "object") return []
+  const current = node as Node
+  const nested = Object.values(current).flatMap(dynamicImportSpecifiers)
+  if (current.type !== "ImportExpression") return nested
+  if (!isStringLiteral(current.source)) return nested
+  return [current.source, ...nested]
+}
+
+/**
+ * Analyze the module code of a source file to bundle,
+ * and prepare edits to remove its imports and exports.
+ */
+function loadModule(
+  file: string,
+  { code, map }: ModuleCode,
+  sources: Map<string, ModuleCode>,
+  options: PackOptions,
+): BundleModule {
+  const { program } = parseSync(file, code, {
+    lang: "js",
+    sourceType: "module",
+  })
+  const body = program.body
+  const { references, innerNames } = analyzeScopes(program)
+  const names = [...new Set([...lexicalNames(body), ...varNames(body)])]
+  const module: BundleModule = {
+    file,
+    code,
+    map,
+    edits: [],
+    names,
+    imports: new Map(),
+    exports: new Map(),
+    stars: [],
+    dependencies: new Set(),
+    sideEffects: [],
+    dynamicImports: [],
+    references,
+    innerNames,
+    globals: new Set(),
+  }
+
+  // Local files not bundled are referred by their absolute paths.
+  const sourceOf = (specifier: string): string | undefined => {
+    const resolved = resolveLocalSpecifier(file, specifier, options)
+    if (resolved === undefined) return undefined
+    return resolved || resolve(dirname(file), specifier)
+  }
+  const origin = (
+    node: Pick<ImportDeclaration, "source" | "attributes" | "start">,
+    imported: string,
+  ): Origin => {
+    const specifier = node.source.value
+    const path = sourceOf(specifier)
+    const bundled = !!path && sources.has(path)
+    if (bundled) module.dependencies.add(path)
+    const source = path || specifier
+    const list = node.attributes
+    const attributes = list.length
+      ? ` with { ${list.map((a) => code.slice(a.start, a.end)).join(", ")} }`
+      : ""
+    return {
+      source,
+      external: !bundled,
+      imported,
+      attributes,
+      start: node.start,
+    }
+  }
+
+  for (const node of body) {
+    if (linkStatement(module, node, origin)) continue
+    switch (node.type) {
+      case "ExportNamedDeclaration": {
+        const { declaration } = node
+        if (!declaration) break
+        remove(module, node.start, declaration.start)
+        for (const name of lexicalNames([declaration])) {
+          module.exports.set(name, name)
+        }
+        if (
+          declaration.type === "VariableDeclaration" &&
+          declaration.kind === "var"
+        ) {
+          for (const name of varNames(declaration)) {
+            module.exports.set(name, name)
+          }
+        }
+        break
+      }
+
+      case "ExportDefaultDeclaration": {
+        const { declaration } = node
+        const named =
+          declaration.type === "FunctionDeclaration" ||
+          declaration.type === "ClassDeclaration"
+        if (named && declaration.id) {
+          remove(module, node.start, declaration.start)
+          module.exports.set("default", declaration.id.name)
+          break
+        }
+        module.names.push("_default")
+        module.exports.set("default", "_default")
+        if (!named) {
+          // Declare the exported expression to refer to it.
+          const { start } = node
+          const end = declaration.start
+          const format = (name: string) => `const ${name} = `
+          module.references.push({ name: "_default", start, end, format })
+          break
+        }
+        // Name the anonymous declaration after its keyword.
+        remove(module, node.start, declaration.start)
+        const at =
+          declaration.type === "ClassDeclaration"
+            ? code.indexOf("class", declaration.start) + "class".length
+            : code.indexOf("(", declaration.start)
+        const format = (name: string) => ` ${name}`
+        module.references.push({ name: "_default", start: at, end: at, format })
+        break
+      }
+    }
+  }
+
+  for (const { start, end, value } of dynamicImportSpecifiers(body)) {
+    const path = sourceOf(value)
+    if (!path) continue
+    module.dynamicImports.push({ start, end, path })
+  }
+  const declared = new Set([...module.names, ...module.imports.keys()])
+  for (const { name } of module.references) {
+    if (!declared.has(name)) module.globals.add(name)
+  }
+  return module
+}
+
+/** Keep imports of the module from the files as imports, not bundled. */
+function keepImports(module: BundleModule, files: Set<string>): void {
+  const origins = [
+    ...module.imports.values(),
+    ...module.exports.values(),
+    ...module.stars,
+    ...module.sideEffects,
+  ]
+  for (const origin of origins) {
+    if (typeof origin === "string" || !files.has(origin.source)) continue
+    origin.external = true
+  }
+  for (const file of files) module.dependencies.delete(file)
+}
+
+/**
+ * Bundle the module code of an entry and the modules it imports,
+ * hoisting all of them into the same scope.
+ *
+ * 1. Modules are concatenated in dependency order,
+ *    with their imports and exports removed.
+ * 2. Top-level names are renamed when colliding with each other,
+ *    with globals, or with names of nested scopes referring to them.
+ * 3. Namespace imports and re-exports of bundled modules
+ *    are declared as frozen objects with getters.
+ * 4. Imports from packages and local files not bundled are kept at the top,
+ *    shared by all modules importing the same names,
+ *    and only names exported from the entry are exported.
+ */
+function bundleEntry(
+  entry: string,
+  order: BundleModule[],
+  modules: Map<string, BundleModule>,
+  options: PackOptions,
+  diagnostics: Diagnostic[],
+): ModuleBundle {
+  const globals = order.flatMap((module) => [...module.globals])
+  const linker = linkModules(order, modules, options, globals)
+  const scopes = new Map<BundleModule, Map<string, Binding>>()
+  for (const module of order) {
+    scopes.set(module, linker.scopeOf(module, diagnostics))
+  }
+  const exports = linker.exportsOf(modules.get(entry)!)
+  const namespaces = linker.namespaces()
+
+  // Rename bindings which would be captured by nested scopes otherwise.
+  let captured = true
+  while (captured) {
+    captured = false
+    for (const [module, scope] of scopes) {
+      for (const [local, binding] of scope) {
+        if (binding.name === local || !module.innerNames.has(binding.name)) {
+          continue
+        }
+        binding.name = linker.unique(local)
+        captured = true
+      }
+    }
+  }
+
+  const pieces: ModuleCode[] = []
+  for (const module of order) {
+    const scope = scopes.get(module)!
+    const edits = [...module.edits]
+    for (const { name, start, end, format } of module.references) {
+      const binding = scope.get(name)
+      if (!binding || (binding.name === name && !format)) continue
+      const text = format ? format(binding.name) : binding.name
+      edits.push({ start, end, text })
+    }
+    for (const { start, end, path } of module.dynamicImports) {
+      const text = JSON.stringify(relativeSpecifier(entry, path))
+      edits.push({ start, end, text })
+    }
+    const piece = applyEdits(module.code, edits, module.map)
+    if (piece.code.trim() !== "") pieces.push(piece)
+
+    const namespace = namespaces.get(module.file)
+    if (!namespace) continue
+    const getters = namespace.members.map(
+      ({ name, binding }) =>
+        `\tget ${JSON.stringify(name)}() { return ${binding.name}; },\n`,
+    )
+    pieces.push({
+      code:
+        `const ${namespace.binding.name} = Object.freeze({\n` +
+        `\t__proto__: null,\n\t[Symbol.toStringTag]: "Module",\n` +
+        `${getters.join("")}});`,
+    })
+  }
+
+  const header = linker.header(modules.get(entry)!)
+  return concatSourceMaps([
+    ...(header.length > 0 ? [{ code: header.join("\n") }] : []),
+    ...pieces,
+    { code: `export { ${exportSpecifiers(exports)} };` },
+  ])
+}
+
+/**
+ * Bundle each entry and the modules it imports into a single ES module,
+ * see the bundle option.
+ *
+ * 1. The module graph follows static imports and re-exports
+ *    between the transformed source files,
+ *    and modules are hoisted into the same scope, see {@link bundleEntry}.
+ * 2. Imports from packages, and from local files not transformed,
+ *    are kept as imports, relative to the entry.
+ * 3. Modules imported dynamically, and their static dependencies,
+ *    are kept as imports as well, and emitted as their own modules.
+ * 4. Source maps of the transformed modules are chained into the bundle.
+ *
+ * @param options resolved options containing srcdir and entries.
+ * @param sources module code of the transformed source files,
+ *   keyed by absolute paths to the source files.
+ * @returns the bundles keyed by absolute paths to the entries,
+ *   source files inlined into any bundle, except the entries
+ *   and those kept, and diagnostics reported when bundling.
+ */
+export function bundleModules(
+  options: PackOptions,
+  sources: Map<string, ModuleCode>,
+): {
+  bundles: Map<string, ModuleBundle>
+  inlined: Set<string>
+  diagnostics: Diagnostic[]
+} {
+  const srcdir = resolve(options.srcdir || "src")
+  const bundles = new Map<string, ModuleBundle>()
+  const diagnostics: Diagnostic[] = []
+  const fail = (file: string, message: string) =>
+    diagnostics.push({ file, line: 1, column: 1, severity: "error", message })
+
+  const entries = Object.values(options.entries || {})
+  if (entries.length === 0) fail(srcdir, "Bundling requires entries")
+  const files = new Set(entries.map((entry) => resolve(srcdir, entry)))
+
+  const modules = new Map<string, BundleModule>()
+  const load = (file: string) =>
+    loadModule(file, sources.get(file)!, sources, options)
+  const queue: string[] = []
+  for (const entry of files) {
+    if (sources.has(entry)) {
+      queue.push(entry)
+      continue
+    }
+    const path = relative(srcdir, entry)
+    if (!existsSync(entry)) fail(entry, `Entry not found: ${path}`)
+    else fail(entry, `Entry is not a transformed source: ${path}`)
+  }
+  for (const file of queue) {
+    if (modules.has(file)) continue
+    const module = load(file)
+    modules.set(file, module)
+    queue.push(...module.dependencies)
+    for (const { path } of module.dynamicImports) {
+      if (sources.has(path)) queue.push(path)
+    }
+  }
+
+  // Modules imported dynamically are emitted with their static dependencies,
+  // which are imported by the bundles instead of being inlined.
+  const kept = new Set<string>()
+  const keep = (file: string) => {
+    if (kept.has(file)) return
+    kept.add(file)
+    for (const dependency of modules.get(file)!.dependencies) keep(dependency)
+  }
+  for (const module of modules.values()) {
+    for (const { path } of module.dynamicImports) {
+      if (modules.has(path)) keep(path)
+    }
+  }
+  for (const module of modules.values()) keepImports(module, kept)
+
+  for (const entry of files) {
+    if (!modules.has(entry)) continue
+    const order = moduleOrder(entry, modules, load)
+    const bundle = bundleEntry(entry, order, modules, options, diagnostics)
+    bundles.set(entry, bundle)
+  }
+
+  const inlined = new Set(
+    [...modules.keys()].filter((file) => !files.has(file) && !kept.has(file)),
+  )
+  return { bundles, inlined, diagnostics }
+}
@@ -0,0 +1,71 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join, resolve } from "node:path"
+import { afterEach, beforeEach, describe, expect, test } from "vitest"
+import { cacheDir, loadCache } from "./cache.js"
+
+describe("cache", () => {
+  let root: string
+  let srcdir: string
+  let file: string
+  const entry = { outputs: { "/out/a.js": "const a = 1;" }, diagnostics: [] }
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "library-pack-"))
+    srcdir = join(root, "src")
+    file = join(srcdir, "a.ts")
+    mkdirSync(srcdir, { recursive: true })
+    writeFileSync(join(root, "package.json"), "{}")
+  })
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  test("default inside node_modules of the package", () => {
+    expect(cacheDir({ srcdir })).toBe(
+      join(root, "node_modules", ".cache", "library-pack"),
+    )
+    expect(cacheDir({ srcdir, cache: "cache" })).toBe(resolve("cache"))
+  })
+
+  test("hit only with unchanged content", () => {
+    loadCache({ srcdir }, [file])!.set(file, "const a: number = 1", entry)
+    const cache = loadCache({ srcdir }, [file])!
+    expect(cache.get(file, "const a: number = 1")).toEqual(entry)
+    expect(cache.get(file, "const a: number = 2")).toBeUndefined()
+  })
+
+  test("invalidate on options or tsconfig changes", () => {
+    loadCache({ srcdir }, [file])!.set(file, "", entry)
+    expect(
+      loadCache({ srcdir, outdir: "dist" }, [file])!.get(file, ""),
+    ).toBeUndefined()
+
+    loadCache({ srcdir }, [file])!.set(file, "", entry)
+    writeFileSync(join(root, "tsconfig.json"), "{}")
+    expect(loadCache({ srcdir }, [file])!.get(file, "")).toBeUndefined()
+
+    writeFileSync(join(root, "base.json"), "{}")
+    writeFileSync(join(root, "tsconfig.json"), `{ "extends": "./base.json" }`)
+    loadCache({ srcdir }, [file])!.set(file, "", entry)
+    writeFileSync(join(root, "base.json"), `{ "compilerOptions": {} }`)
+    expect(loadCache({ srcdir }, [file])!.get(file, "")).toBeUndefined()
+  })
+
+  test("ignore options of the packing as a whole", () => {
+    loadCache({ srcdir }, [file])!.set(file, "", entry)
+    const cache = loadCache({ srcdir, emptyOutdir: true }, [file])!
+    expect(cache.get(file, "")).toEqual(entry)
+  })
+
+  test("invalidate when source files change", () => {
+    loadCache({ srcdir }, [file])!.set(file, "", entry)
+    const cache = loadCache({ srcdir }, [file, join(srcdir, "b.ts")])!
+    expect(cache.get(file, "")).toBeUndefined()
+  })
+
+  test("disabled", () => {
+    expect(loadCache({ srcdir, cache: false }, [file])).toBeUndefined()
+  })
+})
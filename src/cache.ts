@@ -0,0 +1,115 @@
+import { PackOptions } from "@/config.ts"
+import { TransformResult } from "@/index.ts"
+import { findPackageJson } from "@/package.ts"
+import { transformsOutputs } from "@/plugins.ts"
+import { resolveTsconfig, tsconfigFiles } from "@/tsconfig.ts"
+import { createHash } from "node:crypto"
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs"
+import { createRequire } from "node:module"
+import { dirname, join, resolve } from "node:path"
+import { cwd } from "node:process"
+
+/** Persistent cache of transformed outputs, see {@link loadCache}. */
+export type BuildCache = {
+  /** Cached entry of the source file, if its content is unchanged. */
+  get(file: string, code: string): TransformResult | undefined
+  /** Store the entry of the source file, replacing the previous one. */
+  set(file: string, code: string, entry: TransformResult): void
+}
+
+/** Options only affecting the packing as a whole, not part of the key. */
+const packingOptions = [
+  "emptyOutdir",
+  "cache",
+  "packageJson",
+  "entries",
+  "reporter",
+]
+
+function hash(...values: string[]): string {
+  const digest = createHash("sha256")
+  for (const value of values) digest.update(value).update("\0")
+  return digest.digest("hex")
+}
+
+/** Versions of this package and oxc-transform, outputs depend on both. */
+function versions(): string {
+  const require = createRequire(import.meta.url)
+  const own = new URL("../package.json", import.meta.url)
+  return JSON.stringify([
+    JSON.parse(readFileSync(own, "utf-8")).version,
+    require("oxc-transform/package.json").version,
+  ])
+}
+
+/**
+ * Resolve the directory of the build cache and manifest.
+ * Default to node_modules/.cache/library-pack of the package,
+ * which contains the nearest package.json from srcdir upward.
+ *
+ * @param options options containing srcdir and cache.
+ */
+export function cacheDir(options: PackOptions): string {
+  if (options.cache) return resolve(options.cache)
+  const manifest = findPackageJson(options.srcdir || "src")
+  const root = manifest ? dirname(manifest) : cwd()
+  return join(root, "node_modules", ".cache", "library-pack")
+}
+
+/**
+ * Load the persistent build cache for the packing.
+ *
+ * 1. Entries are keyed by the hash of the source content,
+ *    the resolved options, the tsconfig with the files it extends,
+ *    and the source files of the packing.
+ * 2. Versions of this package and oxc-transform are also part of the key,
+ *    so that upgrading either of them invalidates all entries.
+ * 3. Each source file keeps only its latest entry of each build target.
+ * 4. The cache is disabled when any plugin modifies sources or outputs,
+ *    as the plugins can't be part of the key.
+ *
+ * @param options resolved options for the packing.
+ * @param files absolute paths to all source files of the packing.
+ * @returns the cache, or undefined if disabled.
+ */
+export function loadCache(
+  options: PackOptions,
+  files: string[],
+): BuildCache | undefined {
+  if (options.cache === false || transformsOutputs(options)) return undefined
+  const dir = cacheDir(options)
+
+  const tsconfig = resolveTsconfig(options)
+  const tsconfigs =
+    tsconfig && existsSync(tsconfig) ? tsconfigFiles(tsconfig) : []
+  const outputOptions = Object.entries(options).filter(
+    ([key]) => !packingOptions.includes(key),
+  )
+  const context = hash(
+    versions(),
+    JSON.stringify(outputOptions),
+    ...tsconfigs.map((file) => readFileSync(file, "utf-8")),
+    JSON.stringify([...files].sort()),
+  )
+  const entryFile = (file: string) =>
+    join(dir, `${hash(options.name || "", file)}.json`)
+
+  return {
+    get(file, code) {
+      const path = entryFile(file)
+      if (!existsSync(path)) return undefined
+      try {
+        const { key, entry } = JSON.parse(readFileSync(path, "utf-8"))
+        return key === hash(context, file, code) ? entry : undefined
+      } catch {
+        // Broken entries are treated as missing, and replaced later.
+        return undefined
+      }
+    },
+    set(file, code, entry) {
+      mkdirSync(dir, { recursive: true })
+      const key = hash(context, file, code)
+      writeFileSync(entryFile(file), JSON.stringify({ key, entry }))
+    },
+  }
+}
@@ -0,0 +1,279 @@
+import { beforeEach, describe, expect, test, vi } from "vitest"
+import consola from "consola"
+import { ArgsError, cli, cliRunOptions, parseCliArgs } from "./cli.js"
+import { loadRunOptions } from "./config.js"
+import { PackError } from "./diagnostics.js"
+import { check, checkApi, pack } from "./index.js"
+
+// Mock dependencies.
+vi.mock("consola", () => ({
+  default: {
+    log: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    success: vi.fn(),
+  },
+}))
+
+vi.mock("./index.js", () => ({
+  pack: vi.fn(() => Promise.resolve()),
+  check: vi.fn(() => Promise.resolve([])),
+  checkApi: vi.fn(() => ({ changes: [], bump: "patch", updated: false })),
+}))
+
+vi.mock("./config.js", () => ({
+  loadRunOptions: vi.fn(({ file: _file, root: _root, ...overrides }) =>
+    Promise.resolve({
+      srcdir: "source",
+      outdir: "dist",
+      emptyOutdir: true,
+      ...overrides,
+    }),
+  ),
+  targetsOf: vi.fn((options) => [options]),
+}))
+
+vi.mock("./watch.js", () => ({
+  watch: vi.fn(() => Promise.resolve({ close: vi.fn() })),
+}))
+
+vi.mock("./workspace.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./workspace.js")>()),
+  collectWorkspace: vi.fn(() =>
+    Promise.resolve([
+      { name: "a", dir: "/workspace/a", dependencies: ["b"] },
+      { name: "b", dir: "/workspace/b", dependencies: [] },
+    ]),
+  ),
+}))
+
+vi.mock("./utils.js", () => ({
+  maybeEmptyDir: vi.fn(),
+}))
+
+describe("parseCliArgs", () => {
+  test("default to build command", () => {
+    const args = parseCliArgs([])
+    expect(args.command).toBe("build")
+    expect(args.overrides).toEqual({})
+  })
+
+  test("parse command and overrides", () => {
+    const args = parseCliArgs([
+      "check",
+      "-s",
+      "lib",
+      "--outdir",
+      "dist",
+      "-i",
+      "**/*.ts",
+      "-i",
+      "**/*.mts",
+      "--exclude",
+      "**/*.spec.ts",
+      "-a",
+      "**/*.json",
+      "--no-empty-outdir",
+    ])
+    expect(args.command).toBe("check")
+    expect(args.overrides).toEqual({
+      srcdir: "lib",
+      outdir: "dist",
+      includes: ["**/*.ts", "**/*.mts"],
+      excludes: ["**/*.spec.ts"],
+      assets: ["**/*.json"],
+      emptyOutdir: false,
+    })
+  })
+
+  test("parse config paths", () => {
+    const args = parseCliArgs(["-c", "pack.yaml", "--root", "packages/a"])
+    expect(args.path).toEqual({ file: "pack.yaml", root: "packages/a" })
+  })
+
+  test("parse workspace mode", () => {
+    expect(parseCliArgs([]).workspace).toBe(false)
+    const args = parseCliArgs(["-w", "--bail"])
+    expect(args.workspace).toBe(true)
+    expect(args.bail).toBe(true)
+  })
+
+  test("parse reporter", () => {
+    expect(parseCliArgs(["--reporter", "verbose"]).overrides).toEqual({
+      reporter: "verbose",
+    })
+    expect(parseCliArgs(["--json"]).overrides).toEqual({ reporter: "silent" })
+    expect(() => parseCliArgs(["--reporter", "dots"])).toThrow(
+      "Unknown reporter",
+    )
+  })
+
+  test("treat warnings as errors", () => {
+    const args = parseCliArgs(["--warnings-as-errors"])
+    expect(args.overrides).toEqual({ warningsAsErrors: true })
+  })
+
+  test("parse formats", () => {
+    const args = parseCliArgs(["-f", "esm,cjs"])
+    expect(args.overrides).toEqual({ formats: ["esm", "cjs"] })
+    expect(parseCliArgs(["-f", "esm", "-f", "cjs"]).overrides).toEqual({
+      formats: ["esm", "cjs"],
+    })
+    expect(() => parseCliArgs(["-f", "umd"])).toThrow("Unknown format")
+  })
+
+  test("parse defines", () => {
+    const args = parseCliArgs([
+      "-d",
+      "__DEV__=false",
+      "--define",
+      'process.env.NODE_ENV="production"',
+    ])
+    expect(args.overrides).toEqual({
+      define: {
+        __DEV__: "false",
+        "process.env.NODE_ENV": '"production"',
+      },
+    })
+    expect(() => parseCliArgs(["-d", "__DEV__"])).toThrow("Invalid define")
+  })
+
+  test("throw on unknown command", () => {
+    expect(() => parseCliArgs(["deploy"])).toThrow("Unknown command")
+  })
+
+  test("parse check api", () => {
+    expect(parseCliArgs(["check", "api"])).toMatchObject({
+      command: "check",
+      api: true,
+    })
+    expect(parseCliArgs(["check"]).api).toBe(false)
+    expect(() => parseCliArgs(["build", "api"])).toThrow(
+      "Unexpected argument: api",
+    )
+  })
+
+  test("throw on unknown option", () => {
+    expect(() => parseCliArgs(["--outDir", "dist"])).toThrow(ArgsError)
+    expect(() => parseCliArgs(["--outdir"])).toThrow(ArgsError)
+  })
+})
+
+describe("cliRunOptions", () => {
+  test("detect configuration file in cwd by default", () => {
+    const options = cliRunOptions(parseCliArgs(["-o", "build"]))
+    expect(options).toEqual({
+      outdir: "build",
+      file: undefined,
+      root: process.cwd(),
+    })
+  })
+
+  test("load specified configuration file", () => {
+    const options = cliRunOptions(parseCliArgs(["-c", "pack.yaml"]))
+    expect(options).toEqual({ file: "pack.yaml", root: undefined })
+  })
+
+  test("detect configuration file in root", () => {
+    const options = cliRunOptions(parseCliArgs(["-r", "packages/a"]))
+    expect(options).toEqual({ file: undefined, root: "packages/a" })
+  })
+})
+
+describe("cli", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  test("print help", async () => {
+    const write = vi.spyOn(process.stdout, "write").mockReturnValue(true)
+    expect(await cli(["--help"])).toBe(0)
+    expect(String(write.mock.calls[0][0])).toMatch(/^Usage: library-pack/)
+    expect(pack).not.toHaveBeenCalled()
+    write.mockRestore()
+  })
+
+  test("print version plainly", async () => {
+    const write = vi.spyOn(process.stdout, "write").mockReturnValue(true)
+    expect(await cli(["--version"])).toBe(0)
+    expect(String(write.mock.calls[0][0])).toMatch(/^\d+\.\d+\.\d+\n$/)
+    write.mockRestore()
+  })
+
+  test("build with overrides", async () => {
+    expect(await cli(["build", "--srcdir", "lib"])).toBe(0)
+    expect(loadRunOptions).toHaveBeenCalledWith({
+      srcdir: "lib",
+      file: undefined,
+      root: process.cwd(),
+    })
+    expect(pack).toHaveBeenCalledWith({
+      srcdir: "lib",
+      outdir: "dist",
+      emptyOutdir: true,
+    })
+  })
+
+  test("build workspace packages in dependency order", async () => {
+    expect(await cli(["-w", "-f", "cjs"])).toBe(0)
+    expect(vi.mocked(loadRunOptions).mock.calls).toEqual([
+      [{ formats: ["cjs"], root: "/workspace/b" }],
+      [{ formats: ["cjs"], root: "/workspace/a" }],
+    ])
+    expect(pack).toHaveBeenCalledTimes(2)
+  })
+
+  test("exit with non-zero code when workspace packages fail", async () => {
+    vi.mocked(pack).mockRejectedValueOnce(new PackError([]))
+    expect(await cli(["--workspace"])).toBe(1)
+    expect(pack).toHaveBeenCalledTimes(1)
+    expect(await cli(["watch", "--workspace"])).toBe(1)
+  })
+
+  test("print the result as json", async () => {
+    const write = vi.spyOn(process.stdout, "write").mockReturnValue(true)
+    const result = { targets: [], diagnostics: [], duration: 1 }
+    vi.mocked(pack).mockResolvedValueOnce(result)
+    expect(await cli(["--json"])).toBe(0)
+    expect(JSON.parse(String(write.mock.calls[0][0]))).toEqual(result)
+
+    vi.mocked(pack).mockRejectedValueOnce(new PackError([]))
+    expect(await cli(["--json"])).toBe(1)
+    expect(JSON.parse(String(write.mock.calls[1][0]))).toEqual({
+      error: "Build failed with 0 errors",
+      diagnostics: [],
+    })
+    write.mockRestore()
+  })
+
+  test("exit with non-zero code on invalid arguments", async () => {
+    expect(await cli(["deploy"])).toBe(1)
+    expect(await cli(["--outDir", "dist"])).toBe(1)
+    const messages = vi.mocked(consola.error).mock.calls.map(([m]) => m)
+    expect(messages).toEqual([
+      expect.stringMatching(/^Unknown command: deploy\nSee "library-pack/),
+      expect.stringMatching(/^Unknown option '--outDir'.*\nSee "library-pack/s),
+    ])
+  })
+
+  test("exit with non-zero code on failure", async () => {
+    vi.mocked(pack).mockRejectedValueOnce(new Error("failed"))
+    expect(await cli([])).toBe(1)
+  })
+
+  test("exit with non-zero code when check fails", async () => {
+    vi.mocked(check).mockRejectedValueOnce(new PackError([]))
+    expect(await cli(["check"])).toBe(1)
+  })
+
+  test("check api of entries", async () => {
+    expect(await cli(["check", "api"])).toBe(0)
+    expect(checkApi).toHaveBeenCalledTimes(1)
+    expect(check).not.toHaveBeenCalled()
+    vi.mocked(checkApi).mockImplementationOnce(() => {
+      throw new PackError([])
+    })
+    expect(await cli(["check", "api"])).toBe(1)
+  })
+})
@@ -0,0 +1,357 @@
+import {
+  Format,
+  loadRunOptions,
+  PackOptions,
+  RunPathOptions,
+  targetsOf,
+} from "@/config.ts"
+import { PackError } from "@/diagnostics.ts"
+import { check, checkApi, pack } from "@/index.ts"
+import { PluginError } from "@/plugins.ts"
+import { ReporterName, reporters, resolveReporter } from "@/reporter.ts"
+import { ConfigError } from "@/schema.ts"
+import { watch } from "@/watch.ts"
+import { collectWorkspace, runWorkspace, WorkspaceError } from "@/workspace.ts"
+import consola from "consola"
+import { readFileSync } from "node:fs"
+import { resolve } from "node:path"
+import process, { cwd } from "node:process"
+import { parseArgs } from "node:util"
+import { maybeEmptyDir } from "./utils.ts"
+
+export const commands = ["build", "watch", "clean", "check"] as const
+export type Command = (typeof commands)[number]
+
+/**
+ * Parsed command line arguments.
+ *
+ * 1. Command to run, default to "build".
+ * 2. Paths to locate the configuration file.
+ * 3. Options overriding values from the configuration file.
+ * 4. Whether to run over all packages of the workspace in root.
+ * 5. Whether to print the result as JSON instead of logs.
+ * 6. Whether to check the API of entries with `check api`.
+ */
+export type CliArgs = {
+  command: Command
+  api: boolean
+  help: boolean
+  version: boolean
+  workspace: boolean
+  bail: boolean
+  json: boolean
+  path: RunPathOptions
+  overrides: PackOptions
+}
+
+/** Error thrown when the command line arguments are invalid. */
+export class ArgsError extends Error {
+  constructor(message: string, cause?: unknown) {
+    super(message, { cause })
+    this.name = "ArgsError"
+  }
+}
+
+export const usage = `Usage: library-pack [command] [options]
+
+Commands:
+  build                     Pack the sources into outdir (default).
+  watch                     Pack and incrementally repack on changes.
+  clean                     Remove everything inside outdirs of all targets.
+  check                     Transform the sources without writing output.
+  check api                 Compare the API of entries with the API report,
+                            and update the report unless in CI.
+
+Options:
+  -c, --config <file>       Path to the configuration file.
+  -r, --root <dir>          Root directory to detect the configuration file.
+  -w, --workspace           Run for all workspace packages in root in order.
+      --bail                Stop the workspace after the first failure.
+  -s, --srcdir <dir>        Source directory, default to "src".
+  -o, --outdir <dir>        Output directory, default to "out".
+  -i, --include <glob>      Includes glob pattern, repeatable.
+  -e, --exclude <glob>      Excludes glob pattern, repeatable.
+  -a, --asset <glob>        Assets glob pattern to copy as is, repeatable.
+  -f, --format <format>     Output format, "esm" or "cjs", repeatable.
+  -d, --define <key=value>  Replace a global identifier or member expression
+                            with a JavaScript expression, repeatable.
+      --empty-outdir        Empty outdir before packing.
+      --no-empty-outdir     Keep existing files in outdir.
+      --no-cache            Transform all sources without the build cache.
+      --warnings-as-errors  Fail the build on warnings as well.
+      --reporter <name>     Reporter of the packing, "default", "silent",
+                            "verbose" or "json" for events as JSON lines.
+      --json                Print the result as JSON instead of logs.
+  -h, --help                Show this help message.
+  -v, --version             Show the version of this package.`
+
+/** Parse options and positionals, see {@link parseCliArgs}. */
+function parseOptions(argv: string[]) {
+  try {
+    return parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        config: { type: "string", short: "c" },
+        root: { type: "string", short: "r" },
+        workspace: { type: "boolean", short: "w" },
+        bail: { type: "boolean" },
+        reporter: { type: "string" },
+        json: { type: "boolean" },
+        srcdir: { type: "string", short: "s" },
+        outdir: { type: "string", short: "o" },
+        include: { type: "string", short: "i", multiple: true },
+        exclude: { type: "string", short: "e", multiple: true },
+        asset: { type: "string", short: "a", multiple: true },
+        format: { type: "string", short: "f", multiple: true },
+        define: { type: "string", short: "d", multiple: true },
+        "empty-outdir": { type: "boolean" },
+        "no-empty-outdir": { type: "boolean" },
+        "no-cache": { type: "boolean" },
+        "warnings-as-errors": { type: "boolean" },
+        help: { type: "boolean", short: "h" },
+        version: { type: "boolean", short: "v" },
+      },
+    })
+  } catch (error) {
+    // Unknown options and missing values are thrown as type errors.
+    const message = error instanceof Error ? error.message : String(error)
+    throw new ArgsError(message, error)
+  }
+}
+
+/**
+ * Parse command line arguments into a command and options.
+ *
+ * 1. The first positional argument is the command, default to "build",
+ *    and "check" might be followed by "api".
+ * 2. Options specified here override values from the configuration file.
+ * 3. Throws an {@link ArgsError} on unknown commands, unknown options
+ *    or missing values.
+ *
+ * @param argv arguments without the node executable and script path.
+ */
+export function parseCliArgs(argv: string[]): CliArgs {
+  const { values, positionals } = parseOptions(argv)
+
+  const command = (positionals[0] || "build") as Command
+  const api = command === "check" && positionals[1] === "api"
+  if (positionals.length > (api ? 2 : 1)) {
+    throw new ArgsError(`Unexpected argument: ${positionals[api ? 2 : 1]}`)
+  }
+  if (!commands.includes(command)) {
+    throw new ArgsError(`Unknown command: ${command}`)
+  }
+
+  const overrides: PackOptions = {}
+  if (values.srcdir !== undefined) overrides.srcdir = values.srcdir
+  if (values.outdir !== undefined) overrides.outdir = values.outdir
+  if (values.include !== undefined) overrides.includes = values.include
+  if (values.exclude !== undefined) overrides.excludes = values.exclude
+  if (values.asset !== undefined) overrides.assets = values.asset
+  if (values.format !== undefined) {
+    const formats = values.format.flatMap((format) => format.split(","))
+    for (const format of formats) {
+      if (format !== "esm" && format !== "cjs") {
+        throw new ArgsError(`Unknown format: ${format}`)
+      }
+    }
+    overrides.formats = formats as Format[]
+  }
+  if (values.define !== undefined) {
+    overrides.define = {}
+    for (const define of values.define) {
+      const index = define.indexOf("=")
+      if (index <= 0) throw new ArgsError(`Invalid define: ${define}`)
+      overrides.define[define.slice(0, index)] = define.slice(index + 1)
+    }
+  }
+  if (values["empty-outdir"]) overrides.emptyOutdir = true
+  if (values["no-empty-outdir"]) overrides.emptyOutdir = false
+  if (values["no-cache"]) overrides.cache = false
+  if (values["warnings-as-errors"]) overrides.warningsAsErrors = true
+  if (values.reporter !== undefined) {
+    if (!(values.reporter in reporters)) {
+      throw new ArgsError(`Unknown reporter: ${values.reporter}`)
+    }
+    overrides.reporter = values.reporter as ReporterName
+  } else if (values.json) {
+    // Only the result is printed to stdout.
+    overrides.reporter = "silent"
+  }
+
+  return {
+    command,
+    api,
+    help: values.help || false,
+    version: values.version || false,
+    workspace: values.workspace || false,
+    bail: values.bail || false,
+    json: values.json || false,
+    path: { file: values.config, root: values.root },
+    overrides,
+  }
+}
+
+/**
+ * Options to run the packer with from the command line arguments.
+ * The configuration file is always detected in cwd if not specified,
+ * and overrides from the command line take precedence over the file.
+ */
+export function cliRunOptions(args: CliArgs): PackOptions & RunPathOptions {
+  return {
+    ...args.overrides,
+    file: args.path.file,
+    root: args.path.root || (args.path.file ? undefined : cwd()),
+  }
+}
+
+/** Version of this package, read from its package.json. */
+export function version(): string {
+  const file = new URL("../package.json", import.meta.url)
+  return JSON.parse(readFileSync(file, "utf-8")).version
+}
+
+/** Resolves when the process receives SIGINT or SIGTERM. */
+function waitForExit(): Promise<void> {
+  return new Promise((resolve) => {
+    process.once("SIGINT", () => resolve())
+    process.once("SIGTERM", () => resolve())
+  })
+}
+
+/**
+ * Run a command other than watch with the options to load.
+ *
+ * @param command command to run.
+ * @param runOptions options for the packing or configuration file loading.
+ * @param api whether to check the API of entries with "check".
+ * @returns result of the command, printed with --json.
+ */
+async function runCommand(
+  command: Exclude<Command, "watch">,
+  runOptions: PackOptions & RunPathOptions,
+  api = false,
+): Promise<object> {
+  const options = await loadRunOptions(runOptions)
+  const reporter = resolveReporter(targetsOf(options)[0]?.reporter)
+  switch (command) {
+    case "build":
+      return await pack(options)
+
+    case "clean": {
+      const dirs = targetsOf(options).flatMap((target) => [
+        target.outdir || "out",
+        target.cjsOutdir,
+      ])
+      const cleaned: string[] = []
+      for (const dir of new Set(dirs)) {
+        if (!dir) continue
+        maybeEmptyDir(resolve(dir))
+        cleaned.push(resolve(dir))
+        reporter.message?.({
+          level: "success",
+          message: `Cleaned ${resolve(dir)}`,
+        })
+      }
+      return { cleaned }
+    }
+
+    case "check": {
+      if (api) {
+        const result = checkApi(options)
+        const { file, changes, bump, updated } = result
+        const message =
+          changes.length > 0
+            ? `API changes suggest a ${bump} version bump`
+            : updated
+              ? `Wrote the API report to ${file}`
+              : "API matches the report"
+        reporter.message?.({ level: "success", message })
+        return result
+      }
+      const diagnostics = await check(options)
+      reporter.message?.({
+        level: "success",
+        message: "All sources passed the check",
+      })
+      return { diagnostics }
+    }
+  }
+}
+
+/** Print the value as JSON to stdout, bypassing the log level. */
+function printJson(value: unknown): void {
+  process.stdout.write(JSON.stringify(value, null, 2) + "\n")
+}
+
+/**
+ * Entrypoint of the command line interface.
+ *
+ * @param argv arguments without the node executable and script path.
+ * @returns exit code of the process, non-zero on failure.
+ */
+export async function cli(argv: string[]): Promise<number> {
+  let json = false
+  try {
+    const args = parseCliArgs(argv)
+    json = args.json
+    // Print plainly, as the log prefix would break reading the output.
+    if (args.help) {
+      process.stdout.write(usage + "\n")
+      return 0
+    }
+    if (args.version) {
+      process.stdout.write(version() + "\n")
+      return 0
+    }
+
+    const { command } = args
+    const runOptions = cliRunOptions(args)
+    if (args.workspace) {
+      if (command === "watch" || args.path.file) {
+        throw new ArgsError(
+          "Workspace mode supports neither watch nor --config",
+        )
+      }
+      const packages = await collectWorkspace(resolve(runOptions.root!))
+      const results: Record<string, object> = {}
+      await runWorkspace(
+        packages,
+        async (pkg) => {
+          const overrides = { ...args.overrides, root: pkg.dir }
+          results[pkg.name] = await runCommand(command, overrides, args.api)
+        },
+        { bail: args.bail, reporter: args.overrides.reporter },
+      )
+      if (json) printJson(results)
+      return 0
+    }
+    if (command === "watch") {
+      const watcher = await watch(runOptions)
+      await waitForExit()
+      watcher.close()
+      return 0
+    }
+    const result = await runCommand(command, runOptions, args.api)
+    if (json) printJson(result)
+    return 0
+  } catch (error) {
+    // Diagnostics of a pack error have already been reported.
+    const known =
+      error instanceof PackError ||
+      error instanceof ConfigError ||
+      error instanceof PluginError ||
+      error instanceof WorkspaceError ||
+      error instanceof ArgsError
+    const hint =
+      error instanceof ArgsError ? '\nSee "library-pack --help" for usage' : ""
+    consola.error(known ? error.message + hint : error)
+    if (json) {
+      const message = error instanceof Error ? error.message : String(error)
+      const diagnostics = error instanceof PackError ? error.diagnostics : []
+      printJson({ error: message, diagnostics })
+    }
+    return 1
+  }
+}
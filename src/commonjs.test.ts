@@ -0,0 +1,157 @@
+import { describe, expect, test } from "vitest"
+import { toCommonJS } from "./commonjs.js"
+import { decodeMappings, encodeMappings } from "./sourcemap.js"
+
+/** Evaluate CommonJS code and return its exports. */
+function evaluate(code: string, modules: Record<string, unknown> = {}) {
+  const exports = {} as Record<string, unknown>
+  const require = (id: string) => modules[id]
+  new Function("exports", "require", "__filename", code)(
+    exports,
+    require,
+    "/out/a.cjs",
+  )
+  return exports
+}
+
+describe("toCommonJS", () => {
+  test("convert imports into require calls", () => {
+    const { code } = toCommonJS(
+      "a.js",
+      `import "side-effect";\n` +
+        `import * as ns from "ns";\n` +
+        `import def, { a, b as c } from "mod";\n` +
+        `log(def, a, { a }, c());\n`,
+    )
+    expect(code).toContain(`require("side-effect");`)
+    expect(code).toContain(`const ns = require("ns");`)
+    expect(code).toContain(
+      `const __mod0 = require("mod"); const __mod1 = __importDefault(__mod0);`,
+    )
+    expect(code).toContain(
+      `log(__mod1.default, __mod0.a, { a: __mod0.a }, (0, __mod0.b)());`,
+    )
+  })
+
+  test("keep live bindings of imports", () => {
+    const counter = evaluate(
+      toCommonJS(
+        "counter.js",
+        `export let count = 0;\nexport function inc() { count++; }\n`,
+      ).code,
+    )
+    const code =
+      `import { count, inc } from "counter";\n` +
+      `export function read() { inc(); return count; }\n` +
+      `export { count as current };\n`
+    const exports = evaluate(toCommonJS("a.js", code).code, { counter })
+    expect((exports.read as () => number)()).toBe(1)
+    expect(exports.current).toBe(1)
+  })
+
+  test("allow circular imports", () => {
+    const sources: Record<string, string> = {
+      index:
+        `import { double } from "other";\n` +
+        `export const result = 2;\n` +
+        `export const doubled = double();\n`,
+      other:
+        `import { result } from "index";\n` +
+        `export function double() { return result * 2; }\n`,
+    }
+    const cache: Record<string, Record<string, unknown>> = {}
+    const load = (id: string): Record<string, unknown> => {
+      if (cache[id]) return cache[id]
+      const exports = (cache[id] = {})
+      const { code } = toCommonJS(`${id}.js`, sources[id])
+      new Function("exports", "require", "__filename", code)(
+        exports,
+        load,
+        `/out/${id}.cjs`,
+      )
+      return exports
+    }
+    expect(load("index").doubled).toBe(4)
+  })
+
+  test("interop default imports", () => {
+    const code =
+      `import esm from "esm";\n` +
+      `import cjs from "cjs";\n` +
+      `export const values = [esm, cjs];\n`
+    const exports = evaluate(toCommonJS("a.js", code).code, {
+      esm: { __esModule: true, default: "esm" },
+      cjs: "cjs",
+    })
+    expect(exports.values).toEqual(["esm", "cjs"])
+  })
+
+  test("define exports with live bindings", () => {
+    const code =
+      `export let count = 0;\n` +
+      `export function inc() { count++; }\n` +
+      `const { x, y: [z] } = { x: 1, y: [2] };\n` +
+      `export { x, z as "z-z" };\n` +
+      `export default class Thing {}\n`
+    const exports = evaluate(toCommonJS("a.js", code).code)
+    expect(exports.__esModule).toBe(true)
+    expect(exports.count).toBe(0)
+    ;(exports.inc as () => void)()
+    expect(exports.count).toBe(1)
+    expect(exports.x).toBe(1)
+    expect(exports["z-z"]).toBe(2)
+    expect(exports.default).toBeTypeOf("function")
+  })
+
+  test("export default expressions", () => {
+    const exports = evaluate(toCommonJS("a.js", `export default 1 + 1;\n`).code)
+    expect(exports.default).toBe(2)
+  })
+
+  test("re-export from other modules", () => {
+    const code =
+      `export * from "all";\n` +
+      `export * as ns from "ns";\n` +
+      `export { a as b, default as c } from "named";\n`
+    const exports = evaluate(toCommonJS("a.js", code).code, {
+      all: { all: 1, default: 0 },
+      ns: { n: 1 },
+      named: { a: 2, default: 3, __esModule: true },
+    })
+    expect(exports.all).toBe(1)
+    expect(exports.default).toBeUndefined()
+    expect(exports.ns).toEqual({ n: 1 })
+    expect(exports.b).toBe(2)
+    expect(exports.c).toBe(3)
+  })
+
+  test("replace import meta", () => {
+    const code = `export const url = import.meta.url;\n`
+    const exports = evaluate(toCommonJS("a.js", code).code, {
+      "node:url": { pathToFileURL: (file: string) => ({ href: file }) },
+    })
+    expect(exports.url).toBe("/out/a.cjs")
+  })
+
+  test("keep hashbang at first line", () => {
+    const { code } = toCommonJS("a.js", `#!/usr/bin/env node\nexport {};\n`)
+    expect(code.startsWith(`#!/usr/bin/env node\n"use strict";`)).toBe(true)
+  })
+
+  test("shift source map", () => {
+    const map = {
+      version: 3,
+      sources: ["a.ts"],
+      names: [],
+      mappings: encodeMappings([
+        [{ column: 0, source: 0, line: 0, sourceColumn: 0 }],
+      ]),
+    }
+    const result = toCommonJS("a.js", `export const a = 1;\n`, map)
+    const lines = decodeMappings(result.map!.mappings)
+    const line = result.code.split("\n").indexOf("const a = 1;")
+    expect(lines[line]).toEqual([
+      { column: 0, source: 0, line: 0, sourceColumn: 0 },
+    ])
+  })
+})
@@ -0,0 +1,221 @@
+import { analyzeScopes, bindings, nameOf } from "@/ast.ts"
+import { applyEdits, Edit } from "@/sourcemap.ts"
+import { Node, parseSync } from "oxc-parser"
+import { SourceMap } from "oxc-transform"
+
+const helpers = {
+  importDefault:
+    `function __importDefault(mod) { ` +
+    `return mod && mod.__esModule ? mod : { default: mod }; }`,
+  exportStar:
+    `function __exportStar(mod, exports) { ` +
+    `for (const key in mod) if (key !== "default" && ` +
+    `!Object.prototype.hasOwnProperty.call(exports, key)) ` +
+    `Object.defineProperty(exports, key, ` +
+    `{ enumerable: true, get: function () { return mod[key]; } }); }`,
+}
+
+const metaProperties: Record<string, string> = {
+  url: `require("node:url").pathToFileURL(__filename).href`,
+  dirname: "__dirname",
+  filename: "__filename",
+}
+
+const identifier = /^[A-Za-z_$][\w$]*$/
+
+function getter(name: string, value: string): string {
+  return (
+    `Object.defineProperty(exports, ${JSON.stringify(name)}, ` +
+    `{ enumerable: true, get: function () { return ${value}; } });`
+  )
+}
+
+/**
+ * Convert an ES module into CommonJS, and shift its source map.
+ *
+ * 1. Imports are converted into require calls,
+ *    default imports are interoperable with non-ES modules.
+ *    Imported names are referred as members of the required modules,
+ *    keeping live bindings and allowing circular imports.
+ * 2. Exports are defined as getters on `exports`, keeping live bindings,
+ *    and `__esModule` is marked for interoperability.
+ * 3. `import.meta.url`, `dirname` and `filename` are replaced
+ *    with their CommonJS equivalents.
+ * 4. Dynamic imports are kept as is, which are also available in CommonJS.
+ *
+ * @param file path to the output file, its extension decides the language.
+ * @param code the ES module code.
+ * @param map source map of the code, optional.
+ */
+export function toCommonJS(
+  file: string,
+  code: string,
+  map?: SourceMap,
+): { code: string; map?: SourceMap } {
+  const { program } = parseSync(file, code, { sourceType: "module" })
+  const edits: Edit[] = []
+  /** Exported names with their local names. */
+  const exports: [string, string][] = []
+  /** Imported names with the members of the required modules they refer. */
+  const imports = new Map<string, string>()
+  const used = new Set<keyof typeof helpers>()
+  let count = 0
+  const temp = () => `__mod${count++}`
+
+  for (const node of program.body) {
+    const replace = (text: string, start = node.start, end = node.end) =>
+      edits.push({ start, end, text })
+
+    switch (node.type) {
+      case "ImportDeclaration": {
+        const source = `require(${JSON.stringify(node.source.value)})`
+        const { specifiers } = node
+        if (specifiers.length === 0) {
+          replace(`${source};`)
+          break
+        }
+        if (
+          specifiers.length === 1 &&
+          specifiers[0].type === "ImportNamespaceSpecifier"
+        ) {
+          replace(`const ${specifiers[0].local.name} = ${source};`)
+          break
+        }
+
+        const mod = temp()
+        const lines = [`const ${mod} = ${source};`]
+        for (const specifier of specifiers) {
+          const local = specifier.local.name
+          if (specifier.type === "ImportDefaultSpecifier") {
+            used.add("importDefault")
+            const interop = temp()
+            lines.push(`const ${interop} = __importDefault(${mod});`)
+            imports.set(local, `${interop}.default`)
+          } else if (specifier.type === "ImportNamespaceSpecifier") {
+            lines.push(`const ${local} = ${mod};`)
+          } else {
+            const imported = nameOf(specifier.imported)
+            const member = identifier.test(imported)
+              ? `.${imported}`
+              : `[${JSON.stringify(imported)}]`
+            imports.set(local, mod + member)
+          }
+        }
+        replace(lines.join(" "))
+        break
+      }
+
+      case "ExportNamedDeclaration": {
+        const { declaration } = node
+        if (declaration) {
+          replace("", node.start, declaration.start)
+          const names =
+            declaration.type === "VariableDeclaration"
+              ? declaration.declarations.flatMap((d) => bindings(d.id))
+              : bindings("id" in declaration ? declaration.id : null)
+          for (const name of names) exports.push([name, name])
+          break
+        }
+
+        const { specifiers } = node
+        if (!node.source) {
+          for (const specifier of specifiers) {
+            exports.push([nameOf(specifier.exported), nameOf(specifier.local)])
+          }
+          replace("")
+          break
+        }
+
+        const mod = temp()
+        const source = `require(${JSON.stringify(node.source.value)})`
+        const lines = [`const ${mod} = ${source};`]
+        for (const specifier of specifiers) {
+          const local = JSON.stringify(nameOf(specifier.local))
+          const value =
+            local === `"default"`
+              ? `__importDefault(${mod}).default`
+              : `${mod}[${local}]`
+          if (local === `"default"`) used.add("importDefault")
+          lines.push(getter(nameOf(specifier.exported), value))
+        }
+        replace(lines.join(" "))
+        break
+      }
+
+      case "ExportAllDeclaration": {
+        const source = `require(${JSON.stringify(node.source.value)})`
+        if (node.exported) {
+          replace(getter(nameOf(node.exported), source))
+        } else {
+          used.add("exportStar")
+          replace(`__exportStar(${source}, exports);`)
+        }
+        break
+      }
+
+      case "ExportDefaultDeclaration": {
+        const { declaration } = node
+        const named =
+          (declaration.type === "FunctionDeclaration" ||
+            declaration.type === "ClassDeclaration") &&
+          declaration.id
+        if (named) {
+          replace("", node.start, declaration.start)
+          exports.push(["default", named.name])
+        } else {
+          replace("exports.default = ", node.start, declaration.start)
+        }
+        break
+      }
+    }
+  }
+
+  // Imported functions are called without the modules as `this`.
+  const callees = new Set<number>()
+  const visit = (node: unknown) => {
+    if (Array.isArray(node)) return node.forEach(visit)
+    if (!node || typeof node !== "object") return
+    const current = node as Node
+    const callee =
+      current.type === "CallExpression"
+        ? current.callee
+        : current.type === "TaggedTemplateExpression"
+          ? current.tag
+          : undefined
+    if (callee?.type === "Identifier") callees.add(callee.start)
+    if (current.type === "MemberExpression" && !current.computed) {
+      const { object, property } = current
+      if (object.type === "MetaProperty" && metaProperties[property.name]) {
+        edits.push({
+          start: current.start,
+          end: current.end,
+          text: metaProperties[property.name],
+        })
+        return
+      }
+    }
+    for (const value of Object.values(current)) visit(value)
+  }
+  visit(program)
+
+  for (const reference of analyzeScopes(program).references) {
+    const { name, start, end, format } = reference
+    const member = imports.get(name)
+    if (member === undefined) continue
+    const text = callees.has(start) ? `(0, ${member})` : member
+    edits.push({ start, end, text: format ? format(text) : text })
+  }
+
+  const prelude = [
+    `"use strict";`,
+    `Object.defineProperty(exports, "__esModule", { value: true });`,
+    ...exports.map(([name, local]) =>
+      getter(name, imports.get(local) ?? local),
+    ),
+    ...[...used].map((name) => helpers[name]),
+  ]
+  const { hashbang } = program
+  const start = hashbang ? hashbang.end + 1 : 0
+  edits.push({ start, end: start, text: prelude.join("\n") + "\n" })
+  return applyEdits(code, edits, map)
+}
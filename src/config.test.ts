@@ -1,11 +1,26 @@
-import { describe, expect, test } from "vitest"
+import {
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { afterEach, beforeEach, describe, expect, test } from "vitest"
 import {
   defineConfig,
+  detectOptionsFile,
+  loadJson5Options,
   loadJsonOptions,
+  loadOptionsFile,
+  loadRunOptions,
   loadYamlOptions,
   PackOptions,
   resolveOptions,
+  targetsOf,
 } from "./config.js"
+import { ConfigError } from "./schema.js"
 
 describe("jsonc options", () => {
   test("should parse basic json options", () => {
@@ -59,6 +74,48 @@ describe("jsonc options", () => {
       srcdir: "custom-src",
     })
   })
+
+  test("should tolerate trailing commas in jsonc", () => {
+    const jsonc = `{\n  "includes": ["**/*.ts",],\n}`
+    expect(() => loadJsonOptions(jsonc)).toThrow(SyntaxError)
+    expect(loadJsonOptions(jsonc, true)).toEqual({ includes: ["**/*.ts"] })
+  })
+
+  test("should report syntax errors with line and column", () => {
+    const json = `{\n  "srcdir": "src"\n  "outdir": "out"\n}`
+    expect(() => loadJsonOptions(json)).toThrow(/ at 3:3\n/)
+  })
+})
+
+describe("json5 options", () => {
+  test("should parse json5 features", () => {
+    const json5 =
+      `{\n` +
+      `  // Unquoted keys and single-quoted strings.\n` +
+      `  srcdir: 'lib',\n` +
+      `  outdir: 'multi\\\n` +
+      `line',\n` +
+      `  define: { __FLAGS__: '0x1F' },\n` +
+      `  includes: ['**/*.ts',],\n` +
+      `}\n`
+    expect(loadJson5Options(json5)).toEqual({
+      srcdir: "lib",
+      outdir: "multiline",
+      define: { __FLAGS__: "0x1F" },
+      includes: ["**/*.ts"],
+    })
+  })
+
+  test("should parse hex numbers", () => {
+    expect(loadJson5Options(`{ value: 0x10 }`)).toEqual({ value: 16 })
+  })
+
+  test("should report syntax errors with line and column", () => {
+    const json5 = `{\n  srcdir: 'lib'\n  outdir: 'out'\n}`
+    expect(() => loadJson5Options(json5)).toThrow(
+      /invalid character 'o' at 3:3\n.*> 3 \|   outdir/s,
+    )
+  })
 })
 
 describe("yaml options", () => {
@@ -139,6 +196,8 @@ describe("yaml options", () => {
 })
 
 describe("resolveOptions", () => {
+  const { version } = JSON.parse(readFileSync("package.json", "utf-8"))
+
   test("should resolve options with defaults", () => {
     const options = {
       srcdir: "custom-src",
@@ -150,13 +209,18 @@ describe("resolveOptions", () => {
       srcdir: "custom-src",
       outdir: "out",
       includes: ["src/**/*"],
-      excludes: ["node_modules/**/*", "**/*.test.ts", "**/test/**/*"],
-      sourcemap: true,
+      excludes: [
+        "node_modules/**/*",
+        "**/*.test.{ts,tsx,mts,cts,jsx}",
+        "**/test/**/*",
+      ],
+      sourcemap: "external",
       typescript: {
         declaration: {
           sourcemap: true,
         },
       },
+      define: { __VERSION__: JSON.stringify(version) },
     } satisfies PackOptions)
   })
 
@@ -165,16 +229,45 @@ describe("resolveOptions", () => {
     expect(result).toEqual({
       srcdir: "src",
       outdir: "out",
-      includes: ["**/*.ts"],
-      excludes: ["node_modules/**/*", "**/*.test.ts", "**/test/**/*"],
-      sourcemap: true,
+      includes: ["**/*.{ts,tsx,mts,cts,jsx}"],
+      excludes: [
+        "node_modules/**/*",
+        "**/*.test.{ts,tsx,mts,cts,jsx}",
+        "**/test/**/*",
+      ],
+      sourcemap: "external",
       typescript: {
         declaration: {
           sourcemap: true,
         },
       },
+      define: { __VERSION__: JSON.stringify(version) },
     } satisfies PackOptions)
   })
+
+  test("disable declaration maps with source maps", () => {
+    const result = resolveOptions({ sourcemap: false })
+    expect(result.sourcemap).toBe(false)
+    expect(result.typescript?.declaration).toEqual({ sourcemap: false })
+  })
+
+  test("derive defaults from the tsconfig under explicit options", () => {
+    const root = mkdtempSync(join(tmpdir(), "library-pack-"))
+    const tsconfig = join(root, "tsconfig.json")
+    writeFileSync(
+      tsconfig,
+      `{ "compilerOptions": { "target": "ES2020", "jsx": "react-jsx" } }`,
+    )
+    const result = resolveOptions({ tsconfig, target: "es2022" })
+    rmSync(root, { recursive: true, force: true })
+    expect(result.target).toBe("es2022")
+    expect(result.jsx).toEqual({ runtime: "automatic" })
+  })
+
+  test("explicit defines take precedence over the package.json", () => {
+    const define = { __VERSION__: '"next"', "process.env.NODE_ENV": '"test"' }
+    expect(resolveOptions({ define }).define).toEqual(define)
+  })
 })
 
 describe("defineConfig", () => {
@@ -241,3 +334,227 @@ describe("data url import", () => {
     expect(options.excludes).toEqual(["test/**/*"])
   })
 })
+
+describe("loadRunOptions", () => {
+  let root: string
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "library-pack-"))
+  })
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  test("use given options as is without file or root", async () => {
+    const options = { srcdir: "lib", outdir: "dist" }
+    expect(await loadRunOptions(options)).toEqual(options)
+  })
+
+  test("resolve directories in configuration file against its dir", async () => {
+    writeFileSync(join(root, "library-pack.yaml"), "srcdir: lib\n")
+    expect(await loadRunOptions({ root })).toEqual({
+      srcdir: join(root, "lib"),
+      outdir: join(root, "out"),
+    })
+  })
+
+  test("override values from configuration file", async () => {
+    const file = join(root, "library-pack.json")
+    writeFileSync(file, `{ "srcdir": "lib", "emptyOutdir": true }`)
+    expect(await loadRunOptions({ file, outdir: "dist" })).toEqual({
+      srcdir: join(root, "lib"),
+      outdir: "dist",
+      emptyOutdir: true,
+    })
+  })
+
+  test("add defines from overrides to those from the file", async () => {
+    const file = join(root, "library-pack.yaml")
+    writeFileSync(file, `define: { __DEV__: "true", __NAME__: '"a"' }\n`)
+    const define = { __DEV__: "false" }
+    expect((await loadRunOptions({ file, define })).define).toEqual({
+      __DEV__: "false",
+      __NAME__: '"a"',
+    })
+  })
+
+  test("resolve other paths in configuration file against root", async () => {
+    writeFileSync(
+      join(root, "library-pack.yaml"),
+      `cjsOutdir: cjs\ncache: .cache\ntsconfig: tsconfig.build.json\n` +
+        `apiReport: api.json\n`,
+    )
+    expect(await loadRunOptions({ root })).toEqual({
+      srcdir: join(root, "src"),
+      outdir: join(root, "out"),
+      cjsOutdir: join(root, "cjs"),
+      cache: join(root, ".cache"),
+      tsconfig: join(root, "tsconfig.build.json"),
+      apiReport: join(root, "api.json"),
+    })
+    writeFileSync(join(root, "library-pack.yaml"), `cache: false\n`)
+    expect((await loadRunOptions({ root })).cache).toBe(false)
+  })
+
+  test("resolve default directories against root", async () => {
+    expect(await loadRunOptions({ root })).toEqual({
+      srcdir: join(root, "src"),
+      outdir: join(root, "out"),
+    })
+  })
+
+  test("reject invalid options with suggestions", async () => {
+    const file = join(root, "library-pack.json")
+    writeFileSync(file, `{ "outDir": "dist", "exclude": [], "includes": "*" }`)
+    const result = loadOptionsFile(file)
+    await expect(result).rejects.toThrow(ConfigError)
+    await expect(result).rejects.toThrow(
+      `Invalid configuration in ${file}:\n` +
+        `  outDir: unknown option, did you mean "outdir"?\n` +
+        `  exclude: unknown option, did you mean "excludes"?\n` +
+        `  includes: expected string[], received string`,
+    )
+  })
+
+  test("reject broken configuration files", async () => {
+    const json = join(root, "library-pack.json")
+    writeFileSync(json, `{ "srcdir": `)
+    await expect(loadOptionsFile(json)).rejects.toThrow(ConfigError)
+
+    const js = join(root, "library-pack.config.mjs")
+    writeFileSync(js, `throw new Error("broken")`)
+    await expect(loadOptionsFile(js)).rejects.toThrow("failed to load: broken")
+  })
+
+  test("strip the $schema key", async () => {
+    const file = join(root, "library-pack.json")
+    writeFileSync(file, `{ "$schema": "./schema.json", "srcdir": "lib" }`)
+    expect(await loadOptionsFile(file)).toEqual({ srcdir: "lib" })
+  })
+
+  test("merge extended files deeply", async () => {
+    mkdirSync(join(root, "node_modules", "shared"), { recursive: true })
+    writeFileSync(
+      join(root, "node_modules", "shared", "package.json"),
+      `{ "name": "shared", "main": "library-pack.yaml" }`,
+    )
+    writeFileSync(
+      join(root, "node_modules", "shared", "library-pack.yaml"),
+      `excludes: ["**/*.spec.ts"]\ntypescript:\n  jsxPragma: h\n`,
+    )
+    writeFileSync(
+      join(root, "base.json"),
+      `{ "extends": "shared", "includes": ["a"], "target": "es2022",` +
+        ` "typescript": { "declaration": { "stripInternal": true } } }`,
+    )
+    const file = join(root, "library-pack.json")
+    writeFileSync(file, `{ "extends": "./base.json", "includes": ["b"] }`)
+    expect(await loadOptionsFile(file)).toEqual({
+      excludes: ["**/*.spec.ts"],
+      includes: ["b"],
+      target: "es2022",
+      typescript: {
+        jsxPragma: "h",
+        declaration: { stripInternal: true },
+      },
+    })
+  })
+
+  test("reject unresolvable and circular extends", async () => {
+    const file = join(root, "library-pack.json")
+    writeFileSync(file, `{ "extends": "./missing.json" }`)
+    await expect(loadOptionsFile(file)).rejects.toThrow(
+      `extends: cannot find "./missing.json"`,
+    )
+
+    writeFileSync(join(root, "a.json"), `{ "extends": "./library-pack.json" }`)
+    writeFileSync(file, `{ "extends": "./a.json" }`)
+    await expect(loadOptionsFile(file)).rejects.toThrow("circular reference")
+  })
+
+  test("detect options in package.json", async () => {
+    writeFileSync(
+      join(root, "package.json"),
+      `{ "name": "a", "libraryPack": { "srcdir": "lib" } }`,
+    )
+    expect(detectOptionsFile(root)).toBe(join(root, "package.json"))
+    expect(await loadRunOptions({ root })).toEqual({
+      srcdir: join(root, "lib"),
+      outdir: join(root, "out"),
+    })
+
+    writeFileSync(join(root, "library-pack.yaml"), "srcdir: source\n")
+    expect(detectOptionsFile(root)).toBe(join(root, "library-pack.yaml"))
+  })
+
+  test("ignore package.json without options", () => {
+    writeFileSync(join(root, "package.json"), `{ "name": "a" }`)
+    expect(detectOptionsFile(root)).toBeUndefined()
+  })
+
+  test("load arrays of options as targets", async () => {
+    const file = join(root, "library-pack.yaml")
+    writeFileSync(file, "- name: node\n  target: node20\n- srcdir: web\n")
+    expect(await loadOptionsFile(file)).toEqual({
+      targets: {
+        node: { name: "node", target: "node20" },
+        1: { srcdir: "web" },
+      },
+    })
+
+    writeFileSync(file, "- name: node\n- name: node\n")
+    await expect(loadOptionsFile(file)).rejects.toThrow(
+      `[1].name: duplicate "node"`,
+    )
+  })
+
+  test("resolve and override directories of each target", async () => {
+    writeFileSync(
+      join(root, "library-pack.json"),
+      `{ "outdir": "dist", "targets": { "a": {}, "b": { "srcdir": "b" } } }`,
+    )
+    expect(await loadRunOptions({ root, formats: ["cjs"] })).toEqual({
+      targets: {
+        a: {
+          name: "a",
+          srcdir: join(root, "src"),
+          outdir: join(root, "dist"),
+          formats: ["cjs"],
+        },
+        b: {
+          name: "b",
+          srcdir: join(root, "b"),
+          outdir: join(root, "dist"),
+          formats: ["cjs"],
+        },
+      },
+    })
+  })
+})
+
+describe("targetsOf", () => {
+  test("options without targets as a single target", () => {
+    expect(targetsOf({ srcdir: "lib" })).toEqual([{ srcdir: "lib" }])
+  })
+
+  test("merge each target over the shared options", () => {
+    const options: PackOptions = {
+      outdir: "out",
+      typescript: { jsxPragma: "h" },
+      targets: {
+        node: { target: "node20", typescript: { allowNamespaces: true } },
+        browser: { name: "web", outdir: "out/web" },
+      },
+    }
+    expect(targetsOf(options)).toEqual([
+      {
+        name: "node",
+        outdir: "out",
+        target: "node20",
+        typescript: { jsxPragma: "h", allowNamespaces: true },
+      },
+      { name: "web", outdir: "out/web", typescript: { jsxPragma: "h" } },
+    ])
+  })
+})
@@ -1,12 +1,32 @@
-import consola from "consola"
+import { BannerOption } from "@/banner.ts"
+import { codeFrame, position } from "@/diagnostics.ts"
+import { packageDefines } from "@/package.ts"
+import { applyResolveOptions, PackPlugin } from "@/plugins.ts"
+import { Reporter, ReporterName } from "@/reporter.ts"
+import { ConfigError, validateOptions } from "@/schema.ts"
+import { SourcemapMode } from "@/sourcemap.ts"
+import { resolveTsconfig, tsconfigOptions } from "@/tsconfig.ts"
 import { globSync } from "glob"
-import { readFileSync } from "node:fs"
-import { extname } from "node:path"
+import JSON5 from "json5"
+import { existsSync, readFileSync } from "node:fs"
+import { createRequire } from "node:module"
+import {
+  basename,
+  dirname,
+  extname,
+  isAbsolute,
+  join,
+  resolve,
+} from "node:path"
 import { cwd } from "node:process"
+import { pathToFileURL } from "node:url"
 import { TransformOptions, transform } from "oxc-transform"
 import stripJsonComments from "strip-json-comments"
 import yaml from "yaml"
 
+/** Module format of the output, ES modules or CommonJS. */
+export type Format = "esm" | "cjs"
+
 /**
  * Options for transforming a single file.
  *
@@ -14,12 +34,88 @@ import yaml from "yaml"
  * 2. Provides source and output directory configuration.
  * 3. Files will output relative to outdir as it was related to srcdir.
  */
-export type FileOptions = TransformOptions & {
+export type FileOptions = Omit<TransformOptions, "plugins" | "sourcemap"> & {
+  /**
+   * Plugins with hooks into the packing, see {@link PackPlugin}.
+   * An object configures the plugins of oxc-transform instead,
+   * such as { styledComponents: {} }.
+   */
+  plugins?: PackPlugin[] | TransformOptions["plugins"]
+
+  /**
+   * How to output source maps of js and declarations,
+   * "external" (or true), "inline", "hidden" or false,
+   * default to "external", see {@link SourcemapMode}.
+   */
+  sourcemap?: SourcemapMode | boolean
+
+  /** Whether to include contents of sources in maps, default to false. */
+  sourcesContent?: boolean
+
+  /**
+   * Root of sources in maps, such as an URL of the repository,
+   * and sources will be relative to srcdir instead of the map.
+   */
+  sourceRoot?: string
+
+  /**
+   * Whether to bundle each entry and the source files it imports
+   * into a single ES module, instead of outputting one per source file,
+   * see {@link bundleModules}. Imports from packages are kept.
+   */
+  bundle?: boolean
+
+  /**
+   * Options of the declaration outputs.
+   *
+   * 1. bundle rolls the declarations of each entry and the source files
+   *    it imports up into a single declaration file, instead of one
+   *    per source file, see {@link bundleDeclarations}.
+   */
+  dts?: { bundle?: boolean }
+
   /** Source directory, default to "src" inside cwd. */
   srcdir?: string
 
   /** Output directory, default to "out" inside cwd. */
   outdir?: string
+
+  /**
+   * Output formats, default to ["esm"].
+   * CommonJS outputs use .cjs and .d.cts extensions,
+   * and sources with explicit module format (.mts, .cts) are output only in it.
+   */
+  formats?: Format[]
+
+  /** Output directory of CommonJS outputs, default to outdir. */
+  cjsOutdir?: string
+
+  /** Whether to fail on warnings as well as errors, default to false. */
+  warningsAsErrors?: boolean
+
+  /**
+   * Path to the tsconfig.json to read path aliases
+   * and default transform options from, see {@link tsconfigOptions},
+   * default to the nearest one from srcdir upward, false to disable.
+   */
+  tsconfig?: string | false
+
+  /**
+   * Text to insert before the js outputs, such as license headers,
+   * after the shebang if any. Texts keyed by globs of sources
+   * relative to srcdir apply to the matching sources only.
+   */
+  banner?: BannerOption
+
+  /** Text to append after the js outputs, keyed by globs as banner. */
+  footer?: BannerOption
+
+  /**
+   * Reporter of lifecycle events of the packing, such as transformed files,
+   * either a built-in one ("default", "silent", "verbose" and "json")
+   * or custom handlers, default to "default".
+   */
+  reporter?: ReporterName | Reporter
 }
 
 /**
@@ -30,49 +126,128 @@ export type FileOptions = TransformOptions & {
  * 3. Supports include/exclude glob patterns.
  */
 export type PackOptions = FileOptions & {
-  /** Includes glob patterns, default to ["**\/*"]. */
+  /**
+   * Name of the build target, used in logs and to keep
+   * the build caches and manifests of targets apart.
+   * Default to its key in targets, or its index in an array of options.
+   */
+  name?: string
+
+  /**
+   * Build targets keyed by their names, packed concurrently,
+   * such as a node build and a browser build with different targets.
+   * Each of them is merged over the other options, see {@link targetsOf}.
+   */
+  targets?: Record<string, PackOptions>
+
+  /**
+   * Configuration files to extend, merged in order before this one,
+   * as paths relative to this file or package specifiers.
+   * Relative directories from extended files are resolved
+   * against the directory of the extending one.
+   * Only available in configuration files, see {@link loadOptionsFile}.
+   */
+  extends?: string | string[]
+
+  /** Includes glob patterns, default to ["**\/*.{ts,tsx,mts,cts,jsx}"]. */
   includes?: string[]
 
   /**
-   * Excludes glob patterns,
-   * default to ["node_modules/**\/*", "**\/*.test.ts", "**\/test/**\/*"].
+   * Excludes glob patterns, default to ["node_modules/**\/*",
+   * "**\/*.test.{ts,tsx,mts,cts,jsx}", "**\/test/**\/*"].
    */
   excludes?: string[]
 
+  /**
+   * Assets glob patterns, default to [].
+   * Matched files inside srcdir are copied into outdir as is,
+   * instead of being transformed even if also included.
+   */
+  assets?: string[]
+
   /** Whether to empty outdir before packing, default to false. */
   emptyOutdir?: boolean
+
+  /**
+   * Directory of the persistent build cache and manifest,
+   * default to node_modules/.cache/library-pack of the package,
+   * and false to disable the cache but keep the manifest.
+   */
+  cache?: string | false
+
+  /**
+   * Entry points of the package keyed by subpaths of its exports,
+   * with paths relative to srcdir, such as { ".": "index.ts" }.
+   */
+  entries?: Record<string, string>
+
+  /**
+   * How to handle the package.json of the package when packing.
+   *
+   * 1. "validate" (default) checks that its main, types, bin and exports
+   *    refer to emitted files, and the conditions of exports are valid,
+   *    before any output is written. Problems are reported as warnings,
+   *    which fail the packing only with warningsAsErrors.
+   * 2. "generate" validates exports generated from entries instead,
+   *    and writes them after the outputs.
+   * 3. false skips both, while emitted targets of bin are still executable.
+   */
+  packageJson?: "validate" | "generate" | false
+
+  /**
+   * Path to the API report of entries written by `check api`,
+   * default to api-report.json beside the nearest package.json from srcdir,
+   * see {@link checkApi}.
+   */
+  apiReport?: string
 }
 
+/**
+ * Options of a configuration file, either a single object of options
+ * or an array of them as build targets.
+ */
+export type PackConfig = PackOptions | PackOptions[]
+
 /**
  * Resolves configuration options with default values.
  *
  * 1. Merges provided options with defaults.
  * 2. Sets srcdir to "src" if not provided.
  * 3. Sets outdir to "out" if not provided.
- * 4. Sets includes to ["**\/*"] if not provided.
+ * 4. Sets includes to TypeScript and JSX sources if not provided.
  * 5. Sets excludes to ignore node_modules and test files/directories if not provided.
  * 6. Override typescript options to remove js comment by default.
  * 6. Override typescript options to enable declaration by default.
+ * 7. Defines __VERSION__ from the nearest package.json from srcdir,
+ *    unless defined explicitly, see {@link packageDefines}.
+ * 8. Derives transform options from the tsconfig as defaults
+ *    under the explicit ones, see {@link tsconfigOptions}.
+ * 9. Applies resolveOptions hooks of plugins, see {@link PackPlugin}.
  */
 export function resolveOptions(options: PackOptions): PackOptions {
-  return {
+  const srcdir = options.srcdir || "src"
+  const tsconfig = resolveTsconfig({ ...options, srcdir })
+  if (tsconfig)
+    options = mergeOptions(tsconfigOptions(tsconfig).options, options)
+  return applyResolveOptions({
     ...options,
-    srcdir: options.srcdir || "src",
+    srcdir,
     outdir: options.outdir || "out",
-    includes: options.includes || ["**/*.ts"],
+    includes: options.includes || ["**/*.{ts,tsx,mts,cts,jsx}"],
     excludes: options.excludes || [
       "node_modules/**/*",
-      "**/*.test.ts",
+      "**/*.test.{ts,tsx,mts,cts,jsx}",
       "**/test/**/*",
     ],
-    sourcemap: options.sourcemap || true,
+    sourcemap: options.sourcemap ?? "external",
     typescript: {
       ...options.typescript,
       declaration: options.typescript?.declaration || {
-        sourcemap: options.typescript?.declaration?.sourcemap || true,
+        sourcemap: options.sourcemap !== false,
       },
     },
-  }
+    define: { ...packageDefines(srcdir), ...options.define },
+  })
 }
 
 /**
@@ -80,7 +255,8 @@ export function resolveOptions(options: PackOptions): PackOptions {
  *
  * 1. Searches for library-pack.* files in JSON, YAML, and config formats.
  * 2. Supports JSON, JSONC, JSON5, YAML, YML, TS, JS, MTS, CJS, MJS extensions.
- * 3. Returns the first matching file found or undefined.
+ * 3. Falls back to the package.json if it has a "libraryPack" field.
+ * 4. Returns the first matching file found or undefined.
  */
 export function detectOptionsFile(root?: string): string | undefined {
   if (!root) root = cwd()
@@ -89,19 +265,82 @@ export function detectOptionsFile(root?: string): string | undefined {
     `${root}/library-pack.@(json|jsonc|json5|yaml|yml)`,
     `${root}/library-pack.config.@(ts|js|mts|cjs|mjs)`,
   ]
-  return globSync(globPatterns)[0] || undefined
+  const found = globSync(globPatterns)[0]
+  if (found) return found
+
+  const manifest = join(root, "package.json")
+  if (!existsSync(manifest)) return undefined
+  try {
+    const field = JSON.parse(readFileSync(manifest, "utf-8")).libraryPack
+    return field === undefined ? undefined : manifest
+  } catch {
+    // Broken package.json files are not configuration sources.
+    return undefined
+  }
 }
 
 /**
- * Loads configuration from JSON/JSONC/JSON5 format.
+ * Convert errors of parsing JSON or JSON5 into ones with line and column,
+ * and a code frame around the position.
+ */
+function parseError(code: string, error: unknown): unknown {
+  if (!(error instanceof SyntaxError)) return error
+  const located = error as SyntaxError & {
+    lineNumber?: number
+    columnNumber?: number
+  }
+  let { lineNumber: line, columnNumber: column } = located
+  if (line === undefined) {
+    const offset = /at position (\d+)/.exec(error.message)?.[1]
+    const end = /end of JSON input/.test(error.message)
+      ? code.length
+      : undefined
+    if (offset === undefined && end === undefined) return error
+    ;({ line, column } = position(code, Number(offset ?? end)))
+  }
+  const reason = error.message
+    .replace(/^JSON5: /, "")
+    .replace(/ (in JSON )?at (position \d+|\d+:\d+).*$/s, "")
+  const frame = codeFrame(code, line, column!)
+  return new SyntaxError(`${reason} at ${line}:${column}\n${frame}`)
+}
+
+/**
+ * Loads configuration from JSON/JSONC format.
  *
  * 1. Parses JSON with comments stripped.
- * 2. Validates and resolves options with defaults.
- * 3. Returns resolved PackOptions object.
+ * 2. Tolerates trailing commas as VS Code does for .jsonc files.
+ * 3. Throws syntax errors with line and column.
+ *
+ * @param code content of the configuration file.
+ * @param trailingCommas whether to tolerate trailing commas.
+ */
+export function loadJsonOptions(
+  code: string,
+  trailingCommas: boolean = false,
+): PackConfig {
+  try {
+    return JSON.parse(stripJsonComments(code, { trailingCommas }))
+  } catch (error) {
+    throw parseError(code, error)
+  }
+}
+
+/**
+ * Loads configuration from JSON5 format.
+ *
+ * 1. Supports all JSON5 features, such as unquoted keys,
+ *    single-quoted and multi-line strings, and hex numbers.
+ * 2. Throws syntax errors with line and column.
+ *
+ * @param code content of the configuration file.
  */
-export function loadJsonOptions(code: string): PackOptions {
-  const raw = JSON.parse(stripJsonComments(code)) as PackOptions
-  return raw
+export function loadJson5Options(code: string): PackConfig {
+  try {
+    return JSON5.parse(code)
+  } catch (error) {
+    throw parseError(code, error)
+  }
 }
 
 /**
@@ -111,8 +350,8 @@ export function loadJsonOptions(code: string): PackOptions {
  * 2. Validates and resolves options with defaults.
  * 3. Returns resolved PackOptions object.
  */
-export function loadYamlOptions(code: string): PackOptions {
-  const raw = yaml.parse(code) as PackOptions | null
+export function loadYamlOptions(code: string): PackConfig {
+  const raw = yaml.parse(code) as PackConfig | null
   return raw || {}
 }
 
@@ -122,8 +361,9 @@ export function loadYamlOptions(code: string): PackOptions {
  * 1. Provides type checking for configuration objects.
  * 2. Returns the configuration object unchanged.
  * 3. Used in TypeScript/JavaScript config files.
+ * 4. Accepts an array of options as build targets as well.
  */
-export function defineConfig(config: PackOptions): PackOptions {
+export function defineConfig<T extends PackConfig>(config: T): T {
   return config
 }
 
@@ -134,14 +374,11 @@ export function defineConfig(config: PackOptions): PackOptions {
  * 2. Supports both ES modules and CommonJS exports.
  * 3. Returns resolved PackOptions object.
  */
-export async function loadJSOptions(file: string): Promise<PackOptions> {
-  try {
-    const config = await import(file)
-    return config.default || config
-  } catch (error) {
-    consola.error(`Failed to load JavaScript config from ${file}:`, error)
-    return {}
-  }
+export async function loadJSOptions(file: string): Promise<PackConfig> {
+  // Bypass the module cache so that changes are loaded on reload.
+  const url = `${pathToFileURL(resolve(file)).href}?t=${Date.now()}`
+  const config = await import(url)
+  return config.default || config
 }
 
 /**
@@ -152,26 +389,68 @@ export async function loadJSOptions(file: string): Promise<PackOptions> {
  * 3. Uses data URL to load transformed code without creating files.
  * 4. Returns resolved PackOptions object.
  */
-export async function loadTSOptions(file: string): Promise<PackOptions> {
-  try {
-    const code = readFileSync(file, "utf-8")
-    const result = transform(file, code)
+export async function loadTSOptions(file: string): Promise<PackConfig> {
+  const code = readFileSync(file, "utf-8")
+  const result = transform(file, code)
+  const error = result.errors.find((e) => e.severity === "Error")
+  if (error || !result.code) {
+    throw new Error(error?.message || "Failed to transform TypeScript")
+  }
 
-    if (!result.code) {
-      throw new Error("Failed to transform TypeScript to JavaScript")
-    }
+  // Create a data URL from the transformed JavaScript code
+  const dataUrl =
+    `data:text/javascript;` + `charset=utf-8,${encodeURIComponent(result.code)}`
 
-    // Create a data URL from the transformed JavaScript code
-    const dataUrl =
-      `data:text/javascript;` +
-      `charset=utf-8,${encodeURIComponent(result.code)}`
+  // Use dynamic import with data URL
+  const config = await import(dataUrl)
+  return config.default || config
+}
 
-    // Use dynamic import with data URL
-    const config = await import(dataUrl)
-    return config.default || config
-  } catch (error) {
-    consola.error(`Failed to load TypeScript config from ${file}:`, error)
-    return {}
+/**
+ * Deeply merge options, values of the override take precedence.
+ *
+ * 1. Plain objects are merged recursively, such as typescript options.
+ * 2. Arrays and other values are replaced as a whole, not concatenated.
+ * 3. Undefined values of the override are ignored.
+ *
+ * @param base options to be overridden.
+ * @param override options taking precedence.
+ */
+export function mergeOptions(
+  base: PackOptions,
+  override: PackOptions,
+): PackOptions {
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === "object" && !Array.isArray(value)
+  const merge = (a: Record<string, unknown>, b: Record<string, unknown>) => {
+    const merged = { ...a }
+    for (const [key, value] of Object.entries(b)) {
+      if (value === undefined) continue
+      merged[key] =
+        isObject(merged[key]) && isObject(value)
+          ? merge(merged[key], value)
+          : value
+    }
+    return merged
+  }
+  return merge({ ...base }, { ...override }) as PackOptions
+}
+
+/**
+ * Resolve the configuration file an extends entry refers to.
+ * Relative and absolute paths are resolved against the extending file,
+ * and others are resolved as package specifiers from it.
+ */
+function resolveExtends(file: string, specifier: string): string {
+  if (/^\.{1,2}[\\/]/.test(specifier) || isAbsolute(specifier)) {
+    const target = resolve(dirname(file), specifier)
+    if (!existsSync(target)) throw new Error(`cannot find "${specifier}"`)
+    return target
+  }
+  try {
+    return createRequire(resolve(file)).resolve(specifier)
+  } catch {
+    throw new Error(`cannot resolve package "${specifier}"`)
   }
 }
 
@@ -179,17 +458,94 @@ export async function loadTSOptions(file: string): Promise<PackOptions> {
  * Loads configuration from file based on extension.
  *
  * 1. Reads file content based on file extension.
- * 2. Supports JSON, YAML, TypeScript, and JavaScript formats.
+ * 2. Supports JSON, YAML, TypeScript, and JavaScript formats,
+ *    and the "libraryPack" field of package.json files.
  * 3. Routes to appropriate loader function.
- * 4. Returns resolved PackOptions object.
+ * 4. Validates the loaded options, see {@link validateOptions}.
+ * 5. Merges options from files in extends in order,
+ *    and then the options of the file itself, see {@link mergeOptions}.
+ * 6. Arrays of options are loaded as build targets,
+ *    keyed by their names or indexes, see {@link targetsOf}.
+ * 7. Throws a {@link ConfigError} when the file is broken or invalid.
  */
 export async function loadOptionsFile(file: string): Promise<PackOptions> {
+  return await loadExtendedOptions(resolve(file), [])
+}
+
+async function loadExtendedOptions(
+  file: string,
+  chain: string[],
+): Promise<PackOptions> {
+  if (chain.includes(file)) {
+    const cycle = [...chain, file].join(" -> ")
+    throw new ConfigError(chain[0], [`extends: circular reference ${cycle}`])
+  }
+
+  let loaded: unknown
+  try {
+    loaded = await loadOptionsByExtension(file)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    throw new ConfigError(file, [`failed to load: ${message}`])
+  }
+  const issues = validateOptions(loaded)
+  if (issues.length > 0) throw new ConfigError(file, issues)
+  if (!Array.isArray(loaded)) {
+    return await mergeExtends(file, loaded as PackOptions, chain)
+  }
+
+  const targets: Record<string, PackOptions> = {}
+  for (const [index, item] of (loaded as PackOptions[]).entries()) {
+    const name = item.name || String(index)
+    if (name in targets) {
+      throw new ConfigError(file, [`[${index}].name: duplicate "${name}"`])
+    }
+    targets[name] = await mergeExtends(file, item, chain)
+  }
+  return { targets }
+}
+
+/** Merge options of the files extended by the options in order. */
+async function mergeExtends(
+  file: string,
+  loaded: PackOptions,
+  chain: string[],
+): Promise<PackOptions> {
+  const {
+    $schema: _schema,
+    extends: parents,
+    ...options
+  } = loaded as PackOptions & { $schema?: string }
+
+  let merged: PackOptions = {}
+  for (const specifier of [parents || []].flat()) {
+    let parent: string
+    try {
+      parent = resolveExtends(file, specifier)
+    } catch (error) {
+      throw new ConfigError(file, [`extends: ${(error as Error).message}`])
+    }
+    const parentOptions = await loadExtendedOptions(parent, [...chain, file])
+    merged = mergeOptions(merged, parentOptions)
+  }
+  return mergeOptions(merged, options)
+}
+
+/** Route to the loader of the configuration file by its extension. */
+async function loadOptionsByExtension(file: string): Promise<PackConfig> {
   const code = readFileSync(file, "utf-8")
+  if (basename(file) === "package.json") {
+    return JSON.parse(code).libraryPack || {}
+  }
   switch (extname(file)) {
     case ".json":
+      return loadJsonOptions(code)
+
     case ".jsonc":
+      return loadJsonOptions(code, true)
+
     case ".json5":
-      return loadJsonOptions(code)
+      return loadJson5Options(code)
 
     case ".yaml":
     case ".yml":
@@ -227,3 +583,64 @@ export async function loadOptions(path?: RunPathOptions): Promise<PackOptions> {
   if (!file) return {} as PackOptions
   return await loadOptionsFile(file)
 }
+
+/**
+ * Split options into the options of each build target.
+ *
+ * 1. Options without targets are a single target as is.
+ * 2. Otherwise each target is merged over the other options,
+ *    see {@link mergeOptions}, and named by its key unless named itself.
+ *
+ * @param options options for the packing, possibly with targets.
+ */
+export function targetsOf(options: PackOptions): PackOptions[] {
+  const { targets, ...shared } = options
+  if (!targets) return [options]
+  return Object.entries(targets).map(([name, target]) => ({
+    ...mergeOptions(shared, target),
+    name: target.name || name,
+  }))
+}
+
+/**
+ * Load options for running the packer, from both file and given options.
+ *
+ * 1. Uses the given options as is when neither file nor root is specified.
+ * 2. Otherwise loads the configuration file specified or detected in root.
+ * 3. Relative paths in the configuration file, such as srcdir, outdir,
+ *    cjsOutdir, cache, tsconfig and apiReport, are resolved
+ *    against its directory, or the root when there's no configuration file.
+ * 4. Other given options override values from the configuration file,
+ *    and those of every build target, see {@link targetsOf}.
+ */
+export async function loadRunOptions(
+  options?: PackOptions & RunPathOptions,
+): Promise<PackOptions> {
+  const { file, root, ...overrides } = options || {}
+  if (!file && !root && Object.keys(overrides).length > 0) return overrides
+
+  const path = file || detectOptionsFile(root)
+  const loaded = path ? await loadOptionsFile(path) : {}
+  const base = path ? dirname(path) : root || cwd()
+  const resolvePath = <T>(path: string | T) =>
+    typeof path === "string" ? resolve(base, path) : path
+  // Defines from overrides are added to those from the file.
+  const resolveTarget = (target: PackOptions): PackOptions => ({
+    ...target,
+    srcdir: resolve(base, target.srcdir || "src"),
+    outdir: resolve(base, target.outdir || "out"),
+    cjsOutdir: resolvePath(target.cjsOutdir),
+    cache: resolvePath(target.cache),
+    tsconfig: resolvePath(target.tsconfig),
+    apiReport: resolvePath(target.apiReport),
+    ...overrides,
+    define: overrides.define
+      ? { ...target.define, ...overrides.define }
+      : target.define,
+  })
+  if (!loaded.targets) return resolveTarget(loaded)
+  const targets = targetsOf(loaded).map(resolveTarget)
+  return {
+    targets: Object.fromEntries(targets.map((t) => [t.name, t])),
+  }
+}
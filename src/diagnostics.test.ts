@@ -0,0 +1,124 @@
+import { describe, expect, test } from "vitest"
+import {
+  codeFrame,
+  Diagnostic,
+  formatDiagnostic,
+  isFailure,
+  PackError,
+  position,
+  toDiagnostics,
+} from "./diagnostics.js"
+
+describe("position", () => {
+  test("first line", () => {
+    expect(position("const x = 1", 6)).toEqual({ line: 1, column: 7 })
+  })
+
+  test("following lines", () => {
+    expect(position("a\nbc\ndef", 7)).toEqual({ line: 3, column: 3 })
+  })
+})
+
+describe("codeFrame", () => {
+  test("mark line and column", () => {
+    const code = "const a = 1\nconst b = ;\nconst c = 3"
+    expect(codeFrame(code, 2, 11)).toBe(
+      `  1 | const a = 1\n` +
+        `> 2 | const b = ;\n` +
+        `    |           ^\n` +
+        `  3 | const c = 3`,
+    )
+  })
+
+  test("limit context lines", () => {
+    const code = ["1", "2", "3", "4", "5", "6", "7"].join("\n")
+    const frame = codeFrame(code, 4, 1, 1)
+    expect(frame.split("\n")).toHaveLength(4)
+    expect(frame).not.toContain("| 2")
+  })
+})
+
+describe("toDiagnostics", () => {
+  test("convert oxc errors", () => {
+    const diagnostics = toDiagnostics("/src/a.ts", "let a =\nlet b", [
+      {
+        severity: "Error" as never,
+        message: "Unexpected token",
+        labels: [{ start: 8, end: 11 }],
+        helpMessage: "Try removing it",
+      },
+    ])
+    expect(diagnostics).toEqual([
+      {
+        file: "/src/a.ts",
+        line: 2,
+        column: 1,
+        severity: "error",
+        message: "Unexpected token",
+        help: "Try removing it",
+        frame: expect.stringContaining("> 2 | let b"),
+      },
+    ] satisfies Diagnostic[])
+  })
+
+  test("error without labels", () => {
+    const [diagnostic] = toDiagnostics("/src/a.ts", "", [
+      { severity: "Warning" as never, message: "Something", labels: [] },
+    ])
+    expect(diagnostic.line).toBe(1)
+    expect(diagnostic.column).toBe(1)
+    expect(diagnostic.severity).toBe("warning")
+    expect(diagnostic.frame).toBeUndefined()
+  })
+})
+
+describe("isFailure", () => {
+  const base = { file: "a.ts", line: 1, column: 1, message: "" }
+
+  test("errors always fail", () => {
+    expect(isFailure({ ...base, severity: "error" })).toBe(true)
+  })
+
+  test("warnings fail only when treated as errors", () => {
+    expect(isFailure({ ...base, severity: "warning" })).toBe(false)
+    expect(isFailure({ ...base, severity: "warning" }, true)).toBe(true)
+    expect(isFailure({ ...base, severity: "advice" }, true)).toBe(false)
+  })
+})
+
+describe("formatDiagnostic", () => {
+  test("file line column and message", () => {
+    const text = formatDiagnostic({
+      file: "/src/a.ts",
+      line: 3,
+      column: 5,
+      severity: "error",
+      message: "Unexpected token",
+      frame: "> 3 | oops",
+      help: "Remove it",
+    })
+    expect(text).toBe(
+      `/src/a.ts:3:5 error: Unexpected token\n` +
+        `> 3 | oops\n` +
+        `help: Remove it`,
+    )
+  })
+})
+
+describe("PackError", () => {
+  test("summarize failures", () => {
+    const diagnostic: Diagnostic = {
+      file: "a.ts",
+      line: 1,
+      column: 1,
+      severity: "error",
+      message: "",
+    }
+    expect(new PackError([diagnostic]).message).toBe(
+      "Build failed with 1 error",
+    )
+    expect(new PackError([diagnostic, diagnostic]).message).toBe(
+      "Build failed with 2 errors",
+    )
+  })
+})
@@ -0,0 +1,159 @@
+import consola from "consola"
+import { OxcError } from "oxc-transform"
+
+/**
+ * A problem reported when transforming a source file.
+ *
+ * 1. Line and column are 1-based, pointing to the first label of the error.
+ * 2. The code frame is a snippet of the source around that position.
+ */
+export type Diagnostic = {
+  file: string
+  line: number
+  column: number
+  severity: "error" | "warning" | "advice"
+  message: string
+  help?: string
+  frame?: string
+}
+
+/** Error thrown when packing fails, carrying all failing diagnostics. */
+export class PackError extends Error {
+  readonly diagnostics: Diagnostic[]
+
+  constructor(diagnostics: Diagnostic[]) {
+    const count = diagnostics.length
+    super(`Build failed with ${count} ${count === 1 ? "error" : "errors"}`)
+    this.name = "PackError"
+    this.diagnostics = diagnostics
+  }
+}
+
+/**
+ * Resolve 1-based line and column of an offset inside the code.
+ *
+ * @param code the source code.
+ * @param offset 0-based offset of the position inside the code.
+ */
+export function position(
+  code: string,
+  offset: number,
+): { line: number; column: number } {
+  const before = code.slice(0, offset).split("\n")
+  return { line: before.length, column: before[before.length - 1].length + 1 }
+}
+
+/**
+ * Render a code frame around the position with line numbers,
+ * and a caret pointing to the column.
+ *
+ * @param code the source code.
+ * @param line 1-based line of the position.
+ * @param column 1-based column of the position.
+ * @param context how many lines to show before and after the line.
+ */
+export function codeFrame(
+  code: string,
+  line: number,
+  column: number,
+  context = 2,
+): string {
+  const lines = code.split("\n")
+  const start = Math.max(1, line - context)
+  const end = Math.min(lines.length, line + context)
+  const width = String(end).length
+  const frame: string[] = []
+  for (let i = start; i <= end; i++) {
+    const mark = i === line ? ">" : " "
+    const text = lines[i - 1].replace(/\r$/, "")
+    frame.push(`${mark} ${String(i).padStart(width)} | ${text}`.trimEnd())
+    if (i === line) {
+      frame.push(`  ${" ".repeat(width)} | ${" ".repeat(column - 1)}^`)
+    }
+  }
+  return frame.join("\n")
+}
+
+/**
+ * Create a diagnostic at the offset inside the code, with a code frame.
+ *
+ * @param file path to the source file.
+ * @param code content of the source file.
+ * @param offset 0-based offset of the problem inside the code.
+ * @param message description of the problem.
+ * @param severity severity of the problem, default to "error".
+ */
+export function createDiagnostic(
+  file: string,
+  code: string,
+  offset: number,
+  message: string,
+  severity: Diagnostic["severity"] = "error",
+): Diagnostic {
+  const { line, column } = position(code, offset)
+  const frame = codeFrame(code, line, column)
+  return { file, line, column, severity, message, frame }
+}
+
+/**
+ * Convert errors reported by oxc into diagnostics of the source file.
+ *
+ * @param file path to the source file.
+ * @param code content of the source file.
+ * @param errors errors reported by oxc-transformer.
+ */
+export function toDiagnostics(
+  file: string,
+  code: string,
+  errors: OxcError[],
+): Diagnostic[] {
+  return errors.map((error) => {
+    const label = error.labels[0]
+    const severity = error.severity.toLowerCase() as Diagnostic["severity"]
+    const diagnostic = label
+      ? createDiagnostic(file, code, label.start, error.message, severity)
+      : { file, line: 1, column: 1, severity, message: error.message }
+    return { ...diagnostic, help: error.helpMessage }
+  })
+}
+
+/**
+ * Whether the diagnostic should fail the build.
+ *
+ * @param diagnostic the diagnostic to check.
+ * @param warningsAsErrors whether to treat warnings as errors.
+ */
+export function isFailure(
+  diagnostic: Diagnostic,
+  warningsAsErrors?: boolean,
+): boolean {
+  if (diagnostic.severity === "error") return true
+  return !!warningsAsErrors && diagnostic.severity === "warning"
+}
+
+/**
+ * Format the diagnostic as file:line:column with message and code frame.
+ *
+ * @param diagnostic the diagnostic to format.
+ */
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  const { file, line, column, severity, message } = diagnostic
+  const lines = [`${file}:${line}:${column} ${severity}: ${message}`]
+  if (diagnostic.frame) lines.push(diagnostic.frame)
+  if (diagnostic.help) lines.push(`help: ${diagnostic.help}`)
+  return lines.join("\n")
+}
+
+/**
+ * Print diagnostics with consola according to their severities.
+ *
+ * @param diagnostics diagnostics to print.
+ */
+export function reportDiagnostics(diagnostics: Diagnostic[]): void {
+  for (const diagnostic of diagnostics) {
+    const text = formatDiagnostic(diagnostic)
+    if (diagnostic.severity === "error") consola.error(text)
+    else if (diagnostic.severity === "warning") consola.warn(text)
+    else consola.info(text)
+  }
+}
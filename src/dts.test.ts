@@ -0,0 +1,139 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { afterEach, beforeEach, describe, expect, test } from "vitest"
+import { bundleDeclarations } from "./dts.js"
+import { decodeMappings } from "./sourcemap.js"
+
+describe("bundleDeclarations", () => {
+  let srcdir: string
+
+  beforeEach(() => {
+    srcdir = join(mkdtempSync(join(tmpdir(), "library-pack-")), "src")
+    mkdirSync(join(srcdir, "lib"), { recursive: true })
+  })
+
+  afterEach(() => {
+    rmSync(join(srcdir, ".."), { recursive: true, force: true })
+  })
+
+  const write = (path: string, code: string) =>
+    writeFileSync(join(srcdir, path), code)
+  const bundle = (entries: Record<string, string> = { ".": "index.ts" }) => {
+    const { bundles, diagnostics } = bundleDeclarations({ srcdir, entries })
+    const entry = Object.values(entries)[0]
+    return { ...bundles.get(join(srcdir, entry))!, diagnostics }
+  }
+
+  test("inline local declarations and keep package imports", () => {
+    write(
+      "index.ts",
+      `import type { Readable } from "node:stream"\n` +
+        `import { Options } from "./lib/options.ts"\n` +
+        `export * from "./lib/version.ts"\n` +
+        `export function open(options: Options): Readable {\n` +
+        `  return options.input\n` +
+        `}\n`,
+    )
+    write(
+      "lib/options.ts",
+      `import type { Readable } from "node:stream"\n` +
+        `export interface Options { input: Readable }\n`,
+    )
+    write("lib/version.ts", `export const version: string = "1.0.0"\n`)
+    const { code, diagnostics } = bundle()
+    expect(diagnostics).toEqual([])
+    expect(code).toBe(
+      `import { Readable } from "node:stream";\n` +
+        `interface Options {\n\tinput: Readable;\n}\n` +
+        `declare const version: string;\n` +
+        `declare function open(options: Options): Readable;\n` +
+        `export { open, version };\n`,
+    )
+  })
+
+  test("rename colliding names", () => {
+    write(
+      "index.ts",
+      `import { Options as Base } from "./lib/base.ts"\n` +
+        `export type Options<T> = Base & { value: T }\n` +
+        `export { Base }\n`,
+    )
+    write("lib/base.ts", `export type Options = { name: string }\n`)
+    const { code, diagnostics } = bundle()
+    expect(diagnostics).toEqual([])
+    expect(code).toBe(
+      `type Options = {\n\tname: string;\n};\n` +
+        `type Options$1<T> = Options & {\n\tvalue: T;\n};\n` +
+        `export { Options$1 as Options, Options as Base };\n`,
+    )
+  })
+
+  test("declare namespaces and name default exports", () => {
+    write(
+      "index.ts",
+      `export * as shapes from "./lib/shapes.ts"\n` +
+        `export default function (): void {}\n`,
+    )
+    write("lib/shapes.ts", `export type Circle = { radius: number }\n`)
+    const { code } = bundle()
+    expect(code).toBe(
+      `type Circle = {\n\tradius: number;\n};\n` +
+        `declare function _default(): void;\n` +
+        `declare namespace shapes {\n  export { Circle };\n}\n` +
+        `export { shapes, _default as default };\n`,
+    )
+  })
+
+  test("drop internal declarations", () => {
+    write(
+      "index.ts",
+      `export * from "./lib/types.d.ts"\n` +
+        `/** @internal */\n` +
+        `export function secret(): void {}\n`,
+    )
+    write(
+      "lib/types.d.ts",
+      `export type Public = string\n` +
+        `/** @internal */\n` +
+        `export type Private = number\n`,
+    )
+    const { code } = bundle()
+    expect(code).toBe(`type Public = string\n` + `export { Public };\n`)
+  })
+
+  test("map declarations to their sources", () => {
+    write("index.ts", `export * from "./lib/a.ts"\n`)
+    write("lib/a.ts", `export const a: number = 1\n`)
+    const { code, map } = bundle()
+    expect(code).toBe(`declare const a: number;\n` + `export { a };\n`)
+    expect(map.sources).toEqual([join(srcdir, "lib", "a.ts")])
+    expect(decodeMappings(map.mappings)[0][0]).toMatchObject({
+      source: 0,
+      line: 0,
+    })
+  })
+
+  test("report missing entries and exports", () => {
+    write(
+      "index.ts",
+      `import { Missing } from "./lib/a.ts"\n` + `export type A = Missing\n`,
+    )
+    write("lib/a.ts", `export {}\n`)
+    const { diagnostics } = bundle()
+    expect(diagnostics).toMatchObject([
+      {
+        file: join(srcdir, "index.ts"),
+        line: 1,
+        severity: "error",
+        message: `"Missing" is not exported by lib/a.ts`,
+      },
+    ])
+    const result = bundleDeclarations({ srcdir, entries: { ".": "none.ts" } })
+    expect(result.diagnostics[0].message).toBe("Entry not found: none.ts")
+    const none = bundleDeclarations({ srcdir })
+    expect(none.diagnostics[0].message).toBe(
+      "Bundling declarations requires entries",
+    )
+  })
+})
@@ -0,0 +1,430 @@
+import { Identifier, isStringLiteral, nameOf } from "@/ast.ts"
+import { PackOptions } from "@/config.ts"
+import { Diagnostic, toDiagnostics } from "@/diagnostics.ts"
+import { isDeclaration } from "@/extensions.ts"
+import {
+  exportSpecifiers,
+  LinkedModule,
+  linkModules,
+  linkStatement,
+  moduleOrder,
+  Origin,
+  remove,
+  report,
+} from "@/link.ts"
+import { applyEdits, concatSourceMaps, encodeMappings } from "@/sourcemap.ts"
+import { resolveLocalSpecifier } from "@/specifiers.ts"
+import { existsSync, readFileSync } from "node:fs"
+import { basename, relative, resolve } from "node:path"
+import {
+  Comment,
+  ImportDeclaration,
+  Node,
+  parseSync,
+  TSImportType,
+} from "oxc-parser"
+import { isolatedDeclaration, SourceMap } from "oxc-transform"
+
+/**
+ * Identifier referring to a top-level name, or a synthetic one
+ * inserted to name an anonymous declaration.
+ */
+type NameReference = { name: string; start: number; synthetic?: boolean }
+
+/** Declarations of a source file to bundle, see {@link bundleDeclarations}. */
+type DeclarationModule = LinkedModule & {
+  source: string
+  /** Triple-slash directives, hoisted to the top of the bundle. */
+  directives: string[]
+  /** Identifiers referring to top-level names, renamed if necessary. */
+  identifiers: NameReference[]
+  /** Import types of bundled source files, replaced by what they refer to. */
+  importTypes: { start: number; end: number; origin: Origin }[]
+}
+
+/** Declarations bundled from an entry, see {@link bundleDeclarations}. */
+export type DeclarationBundle = {
+  code: string
+  map: SourceMap
+}
+
+/** Leftmost identifier of a qualified name or member expression. */
+function leftmost(node: Node | null | undefined): Identifier | undefined {
+  switch (node?.type) {
+    case "Identifier":
+      return node
+    case "TSQualifiedName":
+      return leftmost(node.left)
+    case "MemberExpression":
+      return leftmost(node.object)
+  }
+}
+
+/** Name referred by the node, which might be a top-level one. */
+function referenceOf(node: Node): Identifier | undefined {
+  switch (node.type) {
+    case "TSTypeReference":
+      return leftmost(node.typeName)
+    case "TSTypeQuery":
+      return leftmost(node.exprName)
+    case "TSInterfaceHeritage":
+    case "TSClassImplements":
+      return leftmost(node.expression)
+    case "ClassDeclaration":
+      return leftmost(node.superClass)
+    default:
+      if (!("key" in node) || !("computed" in node)) return undefined
+      return node.computed ? leftmost(node.key) : undefined
+  }
+}
+
+/** Names of infer types inside the node. */
+function inferNames(node: unknown): string[] {
+  if (Array.isArray(node)) return node.flatMap(inferNames)
+  if (!node || typeof node !== "object") return []
+  const current = node as Node
+  if (current.type === "TSInferType") return [current.typeParameter.name.name]
+  return Object.values(current).flatMap(inferNames)
+}
+
+/** Type parameters declared by the node, shadowing names inside it. */
+function typeParameterNames(node: Node): string[] {
+  if (node.type === "TSMappedType") return [nameOf(node.key)]
+  if (node.type === "TSConditionalType") return inferNames(node.extendsType)
+  const params = ("typeParameters" in node && node.typeParameters?.params) || []
+  return params.map((param) => param.name.name)
+}
+
+/** Identifiers inside the node that may refer to top-level names. */
+function referenceIdentifiers(root: Node): Identifier[] {
+  const identifiers: Identifier[] = []
+  const visit = (value: unknown, shadowed: Set<string>): void => {
+    if (Array.isArray(value)) {
+      for (const item of value) visit(item, shadowed)
+      return
+    }
+    if (!value || typeof value !== "object") return
+    const node = value as Node
+    const names = typeParameterNames(node)
+    const scope = names.length > 0 ? new Set([...shadowed, ...names]) : shadowed
+    const reference = referenceOf(node)
+    if (reference && !scope.has(reference.name)) identifiers.push(reference)
+    for (const child of Object.values(node)) visit(child, scope)
+  }
+  visit(root, new Set())
+  return identifiers
+}
+
+/** Import types inside the node, such as `import("./a.ts").A`. */
+function importTypeNodes(node: unknown): TSImportType[] {
+  if (Array.isArray(node)) return node.flatMap(importTypeNodes)
+  if (!node || typeof node !== "object") return []
+  const current = node as Node
+  if (current.type === "TSImportType") return [current]
+  return Object.values(current).flatMap(importTypeNodes)
+}
+
+/** Identifiers of the top-level names declared by the statement. */
+function declaredNames(node: Node): Identifier[] {
+  switch (node.type) {
+    case "VariableDeclaration":
+      return node.declarations.flatMap(({ id }) =>
+        id.type === "Identifier" ? [id] : [],
+      )
+    case "TSModuleDeclaration":
+      return node.kind !== "global" && node.id.type === "Identifier"
+        ? [node.id]
+        : []
+    default:
+      return "id" in node && node.id?.type === "Identifier" ? [node.id] : []
+  }
+}
+
+/** Start of the JSDoc comment marking the statement @internal, if any. */
+function internalStart(
+  code: string,
+  comments: Comment[],
+  node: Node,
+): number | undefined {
+  const comment = comments.filter(({ end }) => end <= node.start).pop()
+  if (comment?.type !== "Block" || !comment.value.startsWith("*")) return
+  if (!/@internal\b/.test(comment.value)) return
+  if (code.slice(comment.end, node.start).trim() !== "") return
+  return comment.start
+}
+
+/** Source map of a declaration source to itself, line by line. */
+function identityMap(file: string, code: string): SourceMap {
+  const lines = code
+    .split("\n")
+    .map((_, line) => [{ column: 0, source: 0, line, sourceColumn: 0 }])
+  const mappings = encodeMappings(lines)
+  return {
+    version: 3,
+    sources: [file],
+    sourcesContent: [code],
+    names: [],
+    mappings,
+  }
+}
+
+/**
+ * Load the declarations of a source file,
+ * generated by isolated declarations unless it's a declaration source,
+ * and prepare edits to inline them into the bundle.
+ */
+function loadModule(
+  file: string,
+  options: PackOptions,
+  diagnostics: Diagnostic[],
+): DeclarationModule {
+  const source = readFileSync(file, "utf-8")
+  const declaration = isDeclaration(file)
+    ? { code: source, map: identityMap(file, source), errors: [] }
+    : isolatedDeclaration(file, source, {
+        sourcemap: true,
+        stripInternal: true,
+      })
+  diagnostics.push(...toDiagnostics(file, source, declaration.errors))
+  const { code, map } = declaration
+  const { program, comments } = parseSync(file, code, { lang: "dts" })
+  const module: DeclarationModule = {
+    file,
+    source,
+    code,
+    map,
+    edits: [],
+    names: [],
+    imports: new Map(),
+    exports: new Map(),
+    stars: [],
+    dependencies: new Set(),
+    sideEffects: [],
+    directives: [],
+    identifiers: [],
+    importTypes: [],
+  }
+
+  const origin = (
+    node: Pick<ImportDeclaration, "source" | "start">,
+    imported: string,
+  ): Origin | undefined => {
+    const specifier = node.source.value
+    const resolved = resolveLocalSpecifier(file, specifier, options)
+    if (resolved === null) {
+      report(diagnostics, module, node.start, `Cannot resolve "${specifier}"`)
+      return undefined
+    }
+    if (resolved) module.dependencies.add(resolved)
+    const source = resolved || specifier
+    const { start } = node
+    return { source, external: !resolved, imported, attributes: "", start }
+  }
+  const declare = (node: Node) => {
+    for (const id of declaredNames(node)) {
+      module.names.push(id.name)
+      module.identifiers.push(id)
+    }
+    module.identifiers.push(...referenceIdentifiers(node))
+    for (const importType of importTypeNodes(node)) {
+      const qualifier = leftmost(importType.qualifier)
+      const { argument } = importType
+      const source =
+        argument.type === "TSLiteralType" ? argument.literal : undefined
+      if (!isStringLiteral(source)) continue
+      const from = origin({ ...importType, source }, qualifier?.name || "*")
+      if (!from || from.external) continue
+      const { start } = importType
+      const end = qualifier ? qualifier.end : importType.end
+      module.importTypes.push({ start, end, origin: from })
+    }
+  }
+  // Keep the declaration without export, which must be ambient in the bundle.
+  const unexport = (node: Node, declaration: Node) => {
+    const ambient =
+      ("declare" in declaration && declaration.declare) ||
+      declaration.type === "TSInterfaceDeclaration" ||
+      declaration.type === "TSTypeAliasDeclaration"
+    const text = ambient ? "" : "declare "
+    module.edits.push({ start: node.start, end: declaration.start, text })
+    declare(declaration)
+  }
+
+  for (const comment of comments) {
+    if (comment.type !== "Line" || !/^\/\s*<reference\s/.test(comment.value)) {
+      continue
+    }
+    module.directives.push(`//${comment.value}`)
+    remove(module, comment.start, comment.end)
+  }
+
+  for (const node of program.body) {
+    const internal = internalStart(code, comments, node)
+    if (internal !== undefined) {
+      remove(module, internal, node.end)
+      continue
+    }
+
+    if (linkStatement(module, node, origin)) continue
+    switch (node.type) {
+      case "ExportNamedDeclaration": {
+        const { declaration } = node
+        if (!declaration) break
+        unexport(node, declaration)
+        for (const id of declaredNames(declaration)) {
+          module.exports.set(id.name, id.name)
+        }
+        break
+      }
+
+      case "ExportDefaultDeclaration": {
+        const { declaration } = node
+        if (declaration.type === "Identifier") {
+          remove(module, node.start, node.end)
+          module.exports.set("default", declaration.name)
+          break
+        }
+        if ("id" in declaration && declaration.id) {
+          unexport(node, declaration)
+          module.exports.set("default", declaration.id.name)
+          break
+        }
+        // Name the anonymous declaration to export it from the bundle,
+        // inserted by renaming a synthetic identifier after its keyword.
+        const keyword =
+          declaration.type === "ClassDeclaration" ? "class" : "function"
+        const at = code.indexOf(keyword, declaration.start) + keyword.length
+        unexport(node, declaration)
+        module.names.push("_default")
+        module.exports.set("default", "_default")
+        module.identifiers.push({
+          name: "_default",
+          start: at,
+          synthetic: true,
+        })
+        break
+      }
+
+      case "TSExportAssignment":
+        remove(module, node.start, node.end)
+        report(
+          diagnostics,
+          module,
+          node.start,
+          "Bundled declarations can't use export =",
+        )
+        break
+
+      default:
+        declare(node)
+    }
+  }
+  return module
+}
+
+/**
+ * Bundle declarations of an entry and the source files it imports.
+ *
+ * 1. Declarations of bundled source files are inlined in dependency order,
+ *    their top-level names are renamed when colliding with each other,
+ *    and only names exported from the entry are exported.
+ * 2. Imports from packages are kept at the top,
+ *    shared by all bundled source files importing the same names.
+ * 3. Namespace imports and re-exports of bundled source files
+ *    are declared as namespaces exporting their names.
+ * 4. Declarations marked @internal are dropped.
+ */
+function bundleEntry(
+  entry: string,
+  options: PackOptions,
+  diagnostics: Diagnostic[],
+): DeclarationBundle {
+  const modules = new Map<string, DeclarationModule>()
+  const order = moduleOrder(entry, modules, (file) =>
+    loadModule(file, options, diagnostics),
+  )
+  const linker = linkModules(order, modules, options)
+
+  for (const module of order) {
+    const scope = linker.scopeOf(module, diagnostics)
+    for (const identifier of module.identifiers) {
+      const { name, start, synthetic } = identifier
+      const renamed = scope.get(name)?.name
+      if (renamed === undefined || (renamed === name && !synthetic)) continue
+      const end = synthetic ? start : start + name.length
+      const text = synthetic ? ` ${renamed}` : renamed
+      module.edits.push({ start, end, text })
+    }
+    for (const { start, end, origin } of module.importTypes) {
+      const preferred = basename(origin.source).replace(/\..*$|\W/g, "_")
+      const binding = linker.resolveOrigin(origin, preferred)
+      if (binding) module.edits.push({ start, end, text: binding.name })
+      else report(diagnostics, module, start, linker.notExported(origin))
+    }
+  }
+
+  const entryModule = modules.get(entry)!
+  const exports = linker.exportsOf(entryModule)
+  const namespaces = [...linker.namespaces().values()].map(
+    ({ binding, members }) =>
+      `declare namespace ${binding.name} {\n` +
+      `  export { ${exportSpecifiers(members)} };\n}`,
+  )
+  const header = [
+    ...new Set(order.flatMap((module) => module.directives)),
+    ...linker.header(entryModule),
+  ]
+
+  return concatSourceMaps([
+    ...(header.length > 0 ? [{ code: header.join("\n") }] : []),
+    ...order
+      .map((module) => applyEdits(module.code, module.edits, module.map))
+      .filter((piece) => piece.code.trim() !== ""),
+    ...namespaces.map((code) => ({ code })),
+    { code: `export { ${exportSpecifiers(exports)} };` },
+  ])
+}
+
+/**
+ * Bundle declarations of each entry into a single declaration file,
+ * following the isolated declarations of the source files it imports,
+ * see the dts option.
+ *
+ * @param options resolved options containing srcdir and entries.
+ * @returns the bundled declarations keyed by absolute paths to the entries,
+ *   and diagnostics reported when bundling them.
+ */
+export function bundleDeclarations(options: PackOptions): {
+  bundles: Map<string, DeclarationBundle>
+  diagnostics: Diagnostic[]
+} {
+  const srcdir = resolve(options.srcdir || "src")
+  const bundles = new Map<string, DeclarationBundle>()
+  const diagnostics: Diagnostic[] = []
+  const entries = Object.values(options.entries || {})
+  if (entries.length === 0) {
+    const message = "Bundling declarations requires entries"
+    diagnostics.push({
+      file: srcdir,
+      line: 1,
+      column: 1,
+      severity: "error",
+      message,
+    })
+  }
+  for (const entry of new Set(entries.map((entry) => resolve(srcdir, entry)))) {
+    if (!existsSync(entry)) {
+      const message = `Entry not found: ${relative(srcdir, entry)}`
+      diagnostics.push({
+        file: entry,
+        line: 1,
+        column: 1,
+        severity: "error",
+        message,
+      })
+      continue
+    }
+    bundles.set(entry, bundleEntry(entry, options, diagnostics))
+  }
+  return { bundles, diagnostics }
+}
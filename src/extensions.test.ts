@@ -0,0 +1,92 @@
+import { describe, expect, test } from "vitest"
+import {
+  isDeclaration,
+  isTypeScript,
+  outputExtensions,
+  outputPath,
+  sourceFormats,
+} from "./extensions.js"
+
+describe("outputExtensions", () => {
+  test("follow module kind of source", () => {
+    expect(outputExtensions("/src/a.ts")).toEqual({ js: ".js", dts: ".d.ts" })
+    expect(outputExtensions("/src/a.mts")).toEqual({
+      js: ".mjs",
+      dts: ".d.mts",
+    })
+    expect(outputExtensions("/src/a.cts")).toEqual({
+      js: ".cjs",
+      dts: ".d.cts",
+    })
+  })
+
+  test("output commonjs format", () => {
+    expect(outputExtensions("/src/a.ts", "cjs")).toEqual({
+      js: ".cjs",
+      dts: ".d.cts",
+    })
+    expect(outputExtensions("/src/a.mts", "cjs").js).toBe(".mjs")
+  })
+
+  test("output js from jsx sources", () => {
+    expect(outputExtensions("/src/a.tsx").js).toBe(".js")
+    expect(outputExtensions("/src/a.jsx").js).toBe(".js")
+  })
+})
+
+describe("outputPath", () => {
+  test("replace typescript and jsx extensions", () => {
+    expect(outputPath("./utils.ts")).toBe("./utils.js")
+    expect(outputPath("./view.tsx")).toBe("./view.js")
+    expect(outputPath("./view.jsx")).toBe("./view.js")
+    expect(outputPath("./entry.mts")).toBe("./entry.mjs")
+    expect(outputPath("./shim.cts")).toBe("./shim.cjs")
+  })
+
+  test("replace js extensions as commonjs", () => {
+    expect(outputPath("./utils.ts", "cjs")).toBe("./utils.cjs")
+    expect(outputPath("./utils.js", "cjs")).toBe("./utils.cjs")
+    expect(outputPath("./entry.mts", "cjs")).toBe("./entry.mjs")
+  })
+
+  test("keep declarations and other extensions", () => {
+    expect(outputPath("./types.d.ts")).toBe("./types.d.ts")
+    expect(outputPath("./types.d.mts")).toBe("./types.d.mts")
+    expect(outputPath("./utils.js")).toBe("./utils.js")
+    expect(outputPath("./data.json")).toBe("./data.json")
+  })
+})
+
+describe("isTypeScript", () => {
+  test("typescript sources", () => {
+    expect(isTypeScript("/src/a.ts")).toBe(true)
+    expect(isTypeScript("/src/a.tsx")).toBe(true)
+    expect(isTypeScript("/src/a.mts")).toBe(true)
+    expect(isTypeScript("/src/a.cts")).toBe(true)
+  })
+
+  test("javascript sources", () => {
+    expect(isTypeScript("/src/a.jsx")).toBe(false)
+    expect(isTypeScript("/src/a.mjs")).toBe(false)
+  })
+})
+
+describe("sourceFormats", () => {
+  test("explicit module formats", () => {
+    expect(sourceFormats("/src/a.mts", ["esm", "cjs"])).toEqual(["esm"])
+    expect(sourceFormats("/src/a.cts")).toEqual(["cjs"])
+  })
+
+  test("all formats for other sources", () => {
+    expect(sourceFormats("/src/a.ts")).toEqual(["esm"])
+    expect(sourceFormats("/src/a.ts", ["esm", "cjs"])).toEqual(["esm", "cjs"])
+  })
+})
+
+describe("isDeclaration", () => {
+  test("declaration sources", () => {
+    expect(isDeclaration("/src/a.d.ts")).toBe(true)
+    expect(isDeclaration("/src/a.d.mts")).toBe(true)
+    expect(isDeclaration("/src/a.ts")).toBe(false)
+  })
+})
@@ -0,0 +1,107 @@
+import { Format } from "@/config.ts"
+import { extname } from "node:path"
+
+/** Extensions of the output js and declaration files, with leading dot. */
+export type OutputExtensions = {
+  js: string
+  dts: string
+}
+
+const esm: OutputExtensions = { js: ".mjs", dts: ".d.mts" }
+const cjs: OutputExtensions = { js: ".cjs", dts: ".d.cts" }
+const plain: OutputExtensions = { js: ".js", dts: ".d.ts" }
+
+/**
+ * Source extensions whose module format is explicit.
+ *
+ * 1. ES module sources (.mts, .mjs) are always output as .mjs and .d.mts.
+ * 2. CommonJS sources (.cts, .cjs) are always output as .cjs and .d.cts.
+ */
+const explicit: Record<string, Format> = {
+  ".mts": "esm",
+  ".mjs": "esm",
+  ".cts": "cjs",
+  ".cjs": "cjs",
+}
+
+/** Source extensions that can be transformed, with leading dot. */
+export const sourceExtensions: string[] = [
+  ".ts",
+  ".tsx",
+  ".js",
+  ".jsx",
+  ...Object.keys(explicit),
+]
+
+/**
+ * Formats to output a source file in.
+ * Sources with explicit module format (.mts, .cts) are output only in it,
+ * and others in all the given formats.
+ *
+ * @param file path to the source file.
+ * @param formats formats of the packing, default to ["esm"].
+ */
+export function sourceFormats(file: string, formats?: Format[]): Format[] {
+  const format = explicit[extname(file)]
+  if (format) return [format]
+  return formats?.length ? formats : ["esm"]
+}
+
+/**
+ * Resolve the output extensions of a source file in the format.
+ *
+ * 1. Sources with explicit module format (.mts, .cts) keep it.
+ * 2. Others, including JSX sources (.tsx, .jsx),
+ *    output .js and .d.ts as ES modules, and .cjs and .d.cts as CommonJS.
+ *
+ * @param file path to the source file.
+ * @param format format of the output, default to "esm".
+ */
+export function outputExtensions(
+  file: string,
+  format: Format = "esm",
+): OutputExtensions {
+  const kind = explicit[extname(file)]
+  if (kind) return kind === "esm" ? esm : cjs
+  return format === "cjs" ? cjs : plain
+}
+
+/**
+ * Replace the extension of a relative path with its output one in the format,
+ * such as "./utils.ts" into "./utils.js" and "./shim.cts" into "./shim.cjs".
+ * As CommonJS, ".js" paths are also replaced into ".cjs" ones.
+ * Paths of declaration files or with other extensions are kept as is.
+ *
+ * @param path the path or module specifier.
+ * @param format format of the output, default to "esm".
+ */
+export function outputPath(path: string, format: Format = "esm"): string {
+  const ext = extname(path)
+  const pattern =
+    format === "cjs"
+      ? /^\.(ts|tsx|js|jsx|mts|cts)$/
+      : /^\.(ts|tsx|jsx|mts|cts)$/
+  if (!pattern.test(ext)) return path
+  if (/\.d\.[cm]?ts$/.test(path)) return path
+  return path.slice(0, -ext.length) + outputExtensions(path, format).js
+}
+
+/**
+ * Whether the source file is written in TypeScript,
+ * declarations are only output from TypeScript sources.
+ *
+ * @param file path to the source file.
+ */
+export function isTypeScript(file: string): boolean {
+  return /\.[cm]?tsx?$/.test(file)
+}
+
+/**
+ * Whether the source file is a declaration file written by hand,
+ * which is passed through as declarations instead of being transformed.
+ *
+ * @param file path to the source file.
+ */
+export function isDeclaration(file: string): boolean {
+  return /\.d\.[cm]?ts$/.test(file)
+}
@@ -1,10 +1,33 @@
 import { beforeEach, describe, expect, test, vi } from "vitest"
-import { pack, run, transform } from "./index.js"
+import { glob } from "glob"
+import { copyFileSync, existsSync, readFileSync, writeFileSync } from "node:fs"
+import { transformAsync } from "oxc-transform"
+import { PackError } from "./diagnostics.js"
+import {
+  checkApi,
+  defineConfig,
+  definePlugin,
+  PackConfig,
+  PackPlugin,
+  pack,
+  run,
+  transform,
+} from "./index.js"
+import { packageJson, writePackageJson } from "./package.js"
+import { loadManifest, removeOrphans } from "./manifest.js"
+import { loadRunOptions } from "./config.js"
+import { bundleDeclarations } from "./dts.js"
+import { maybeEmptyDir } from "./utils.js"
+import { resolveTsconfig, tsconfigOptions } from "./tsconfig.js"
+import { collectWorkspace } from "./workspace.js"
 
 // Mock dependencies.
 vi.mock("consola", () => ({
   default: {
     success: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
   },
 }))
 
@@ -13,7 +36,11 @@ vi.mock("glob", () => ({
 }))
 
 vi.mock("node:fs", () => ({
+  copyFileSync: vi.fn(),
+  existsSync: vi.fn(() => false),
+  mkdirSync: vi.fn(),
   readFileSync: vi.fn(() => "const x: number = 1;"),
+  statSync: vi.fn(() => ({ size: 8 })),
   writeFileSync: vi.fn(),
 }))
 
@@ -24,24 +51,100 @@ vi.mock("oxc-transform", () => ({
       declaration: "declare const x: number;",
       map: null,
       declarationMap: null,
+      errors: [],
     }),
   ),
 }))
 
+vi.mock("./specifiers.js", () => ({
+  resolveSpecifiers: vi.fn(() => ({ rewrites: new Map(), diagnostics: [] })),
+  rewriteSpecifiers: vi.fn((_, code, __, map) => ({ code, map })),
+}))
+
+vi.mock("./cache.js", () => ({
+  loadCache: vi.fn(() => undefined),
+}))
+
+vi.mock("./manifest.js", () => ({
+  loadManifest: vi.fn(() => ({ outputs: {} })),
+  saveManifest: vi.fn(),
+  removeOrphans: vi.fn(() => []),
+}))
+
+vi.mock("./package.js", () => ({
+  findPackageJson: vi.fn(() => "/project/package.json"),
+  packageJson: vi.fn(() => []),
+  writePackageJson: vi.fn(() => []),
+}))
+
+vi.mock("./commonjs.js", () => ({
+  toCommonJS: vi.fn((_, code, map) => ({ code, map })),
+}))
+
+vi.mock("./workspace.js", () => ({
+  collectWorkspace: vi.fn(() =>
+    Promise.resolve([{ name: "a", dir: "/workspace/a", dependencies: [] }]),
+  ),
+  runWorkspace: vi.fn((packages, task) => Promise.all(packages.map(task))),
+}))
+
+vi.mock("./tsconfig.js", () => ({
+  resolveTsconfig: vi.fn(() => undefined),
+  tsconfigOptions: vi.fn(() => ({ options: {}, diagnostics: [] })),
+}))
+
+vi.mock("./dts.js", () => ({
+  bundleDeclarations: vi.fn(() => ({
+    bundles: new Map([
+      [
+        "/project/src/index.ts",
+        {
+          code: "declare const x: number;\nexport { x };\n",
+          map: { version: 3, sources: [], names: [], mappings: "" },
+        },
+      ],
+    ]),
+    diagnostics: [],
+  })),
+}))
+
+vi.mock("./bundle.js", () => ({
+  bundleModules: vi.fn(() => ({
+    bundles: new Map([
+      [
+        "/project/src/index.ts",
+        { code: "const x = 1;\nexport { x };\n", map: undefined },
+      ],
+    ]),
+    inlined: new Set(["/project/src/a.ts"]),
+    diagnostics: [],
+  })),
+}))
+
 vi.mock("./utils.js", () => ({
-  maybeWriteFile: vi.fn(),
   maybeEmptyDir: vi.fn(),
 }))
 
-vi.mock("./config.js", () => ({
+vi.mock("./config.js", async (importOriginal) => ({
+  targetsOf: (await importOriginal<typeof import("./config.js")>()).targetsOf,
+  defineConfig: (await importOriginal<typeof import("./config.js")>())
+    .defineConfig,
   resolveOptions: vi.fn((options) => ({
     srcdir: options.srcdir || "src",
     outdir: options.outdir || "out",
     includes: options.includes || ["**/*.ts"],
     excludes: options.excludes || ["node_modules/**/*"],
     emptyOutdir: options.emptyOutdir || false,
+    assets: options.assets,
+    name: options.name,
+    reporter: options.reporter,
+    plugins: options.plugins,
+    entries: options.entries,
+    dts: options.dts,
+    bundle: options.bundle,
+    apiReport: options.apiReport,
   })),
-  loadOptions: vi.fn(() =>
+  loadRunOptions: vi.fn(() =>
     Promise.resolve({
       srcdir: "src",
       outdir: "out",
@@ -50,6 +153,13 @@ vi.mock("./config.js", () => ({
   ),
 }))
 
+function failedResult(severity: string) {
+  return {
+    code: "",
+    errors: [{ severity, message: "Unexpected token", labels: [] }],
+  } as never
+}
+
 describe("transform", () => {
   beforeEach(() => {
     vi.clearAllMocks()
@@ -64,6 +174,83 @@ describe("transform", () => {
 
     await expect(transform(mockFile, mockOptions)).resolves.not.toThrow()
   })
+
+  test("skip writing on errors", async () => {
+    vi.mocked(transformAsync).mockResolvedValueOnce(failedResult("Error"))
+    const diagnostics = await transform("/project/src/test.ts", {})
+    expect(diagnostics).toHaveLength(1)
+    expect(diagnostics[0].severity).toBe("error")
+    expect(writeFileSync).not.toHaveBeenCalled()
+  })
+
+  test("pass declaration sources through", async () => {
+    await transform("/project/src/types.d.ts", {
+      srcdir: "/project/src",
+      outdir: "/project/out",
+    })
+    expect(transformAsync).not.toHaveBeenCalled()
+    expect(writeFileSync).toHaveBeenCalledWith(
+      "/project/out/types.d.ts",
+      "const x: number = 1;",
+    )
+  })
+
+  test("reuse cached outputs", async () => {
+    const outputs = { "/project/out/test.js": "const x = 1;" }
+    const cache = {
+      get: vi.fn(() => ({ outputs, diagnostics: [] })),
+      set: vi.fn(),
+    }
+    await transform("/project/src/test.ts", {}, cache)
+    expect(transformAsync).not.toHaveBeenCalled()
+    expect(writeFileSync).toHaveBeenCalledWith(
+      "/project/out/test.js",
+      "const x = 1;",
+    )
+    expect(cache.set).not.toHaveBeenCalled()
+  })
+
+  test("store transformed outputs into cache", async () => {
+    const cache = { get: vi.fn(), set: vi.fn() }
+    await transform("/project/src/test.ts", { outdir: "/project/out" }, cache)
+    expect(cache.set).toHaveBeenCalledWith(
+      "/project/src/test.ts",
+      "const x: number = 1;",
+      expect.objectContaining({ diagnostics: [] }),
+    )
+  })
+
+  test("apply transform hooks of plugins", async () => {
+    const plugin = {
+      name: "banner",
+      beforeTransform: vi.fn((code: string) => `// source\n${code}`),
+      afterTransform: vi.fn((outputs: Record<string, string>) =>
+        Object.fromEntries(
+          Object.entries(outputs).map(([file, code]) => [file, `/*!*/${code}`]),
+        ),
+      ),
+    }
+    const file = "/project/src/test.ts"
+    await transform(file, {
+      srcdir: "/project/src",
+      outdir: "/project/out",
+      plugins: [plugin],
+    })
+    expect(vi.mocked(transformAsync).mock.calls[0][1]).toBe(
+      "// source\nconst x: number = 1;",
+    )
+    expect(vi.mocked(transformAsync).mock.calls[0][2]?.plugins).toBeUndefined()
+    expect(writeFileSync).toHaveBeenCalledWith(
+      "/project/out/test.js",
+      "/*!*/const x = 1;",
+    )
+  })
+
+  test("skip writing on warnings treated as errors", async () => {
+    vi.mocked(transformAsync).mockResolvedValueOnce(failedResult("Warning"))
+    await transform("/project/src/test.ts", { warningsAsErrors: true })
+    expect(writeFileSync).not.toHaveBeenCalled()
+  })
 })
 
 describe("pack", () => {
@@ -79,6 +266,313 @@ describe("pack", () => {
 
     await expect(pack(mockOptions)).resolves.not.toThrow()
   })
+
+  test("report lifecycle events", async () => {
+    vi.mocked(glob).mockResolvedValueOnce(["/project/src/a.ts"])
+    const reporter = {
+      buildStart: vi.fn(),
+      fileTransformed: vi.fn(),
+      buildEnd: vi.fn(),
+    }
+    await pack({ srcdir: "/project/src", outdir: "/project/out", reporter })
+    expect(reporter.buildStart).toHaveBeenCalledWith({
+      targets: [expect.objectContaining({ outdir: "/project/out" })],
+    })
+    expect(reporter.fileTransformed).toHaveBeenCalledWith({
+      file: "/project/src/a.ts",
+      outputs: expect.arrayContaining(["/project/out/a.js"]),
+    })
+    const [[{ result }]] = reporter.buildEnd.mock.calls
+    expect(result.targets[0].sources).toHaveLength(1)
+  })
+
+  test("report diagnostics and errors", async () => {
+    vi.mocked(glob).mockResolvedValueOnce(["/project/src/a.ts"])
+    vi.mocked(transformAsync).mockResolvedValueOnce(failedResult("Error"))
+    const reporter = { diagnostic: vi.fn(), buildEnd: vi.fn() }
+    await expect(pack({ reporter })).rejects.toThrow(PackError)
+    expect(reporter.diagnostic).toHaveBeenCalledWith(
+      expect.objectContaining({ message: "Unexpected token" }),
+    )
+    const [[{ error }]] = reporter.buildEnd.mock.calls
+    expect(error).toBeInstanceOf(PackError)
+  })
+
+  test("warn about unsupported settings of tsconfig", async () => {
+    const warning = {
+      file: "/project/tsconfig.json",
+      line: 2,
+      column: 3,
+      severity: "warning" as const,
+      message: 'Unsupported module "amd", use formats instead',
+    }
+    vi.mocked(resolveTsconfig).mockReturnValueOnce("/project/tsconfig.json")
+    vi.mocked(tsconfigOptions).mockReturnValueOnce({
+      options: {},
+      diagnostics: [warning],
+    })
+    const reporter = { diagnostic: vi.fn() }
+    const result = await pack({ reporter })
+    expect(reporter.diagnostic).toHaveBeenCalledWith(warning)
+    expect(result.diagnostics).toEqual([warning])
+  })
+
+  test("copy assets", async () => {
+    vi.mocked(glob).mockResolvedValueOnce([])
+    vi.mocked(glob).mockResolvedValueOnce(["/project/src/data.json"])
+    await pack({
+      srcdir: "/project/src",
+      outdir: "/project/out",
+      assets: ["**/*.json"],
+    })
+    expect(copyFileSync).toHaveBeenCalledWith(
+      "/project/src/data.json",
+      "/project/out/data.json",
+    )
+  })
+
+  test("write nothing when any file fails", async () => {
+    vi.mocked(glob).mockResolvedValueOnce(["/src/a.ts", "/src/b.ts"])
+    vi.mocked(transformAsync).mockResolvedValueOnce(failedResult("Error"))
+    await expect(pack({ emptyOutdir: true })).rejects.toThrow(PackError)
+    expect(writeFileSync).not.toHaveBeenCalled()
+    expect(maybeEmptyDir).not.toHaveBeenCalled()
+    expect(removeOrphans).not.toHaveBeenCalled()
+  })
+
+  test("remove orphans of the previous build", async () => {
+    const previous = { outputs: { "/project/src/b.ts": ["/project/out/b.js"] } }
+    vi.mocked(loadManifest).mockReturnValueOnce(previous)
+    vi.mocked(glob).mockResolvedValueOnce(["/project/src/a.ts"])
+    await pack({ srcdir: "/project/src", outdir: "/project/out" })
+    const [, current] = vi.mocked(removeOrphans).mock.calls[0]
+    expect(vi.mocked(removeOrphans).mock.calls[0][0]).toBe(previous)
+    expect(current).toContain("/project/out/a.js")
+  })
+
+  test("pack all targets and report together", async () => {
+    for (let i = 0; i < 2; i++) {
+      vi.mocked(glob).mockResolvedValueOnce(["/project/src/a.ts"])
+    }
+    await pack({
+      srcdir: "/project/src",
+      targets: {
+        node: { outdir: "/project/out/node" },
+        browser: { outdir: "/project/out/browser" },
+      },
+    })
+    const written = vi.mocked(writeFileSync).mock.calls.map(([file]) => file)
+    expect(written).toContain("/project/out/node/a.js")
+    expect(written).toContain("/project/out/browser/a.js")
+    const [targets, emitted] = vi.mocked(packageJson).mock.calls[0]
+    expect(targets.map((target) => target.name)).toEqual(["node", "browser"])
+    expect(emitted).toContain("/project/out/browser/a.js")
+  })
+
+  test("write no target when any of them fails", async () => {
+    for (let i = 0; i < 2; i++) {
+      vi.mocked(glob).mockResolvedValueOnce(["/project/src/a.ts"])
+    }
+    vi.mocked(transformAsync).mockResolvedValueOnce(failedResult("Error"))
+    const result = pack({ targets: { node: {}, browser: {} } })
+    await expect(result).rejects.toThrow("Build failed with 1 error")
+    expect(writeFileSync).not.toHaveBeenCalled()
+  })
+
+  test("reject with collected errors", async () => {
+    vi.mocked(glob).mockResolvedValueOnce(["/src/a.ts", "/src/b.ts"])
+    vi.mocked(transformAsync).mockResolvedValue(failedResult("Error"))
+    const result = pack({})
+    await expect(result).rejects.toThrow(PackError)
+    await expect(result).rejects.toThrow("Build failed with 2 errors")
+    expect(packageJson).not.toHaveBeenCalled()
+    vi.mocked(transformAsync).mockReset()
+  })
+
+  test("resolve with emitted files and their sizes", async () => {
+    vi.mocked(glob).mockResolvedValueOnce(["/project/src/a.ts"])
+    vi.mocked(glob).mockResolvedValueOnce(["/project/src/data.json"])
+    const result = await pack({
+      srcdir: "/project/src",
+      outdir: "/project/out",
+      assets: ["**/*.json"],
+    })
+    const [target] = result.targets
+    expect(target.options.outdir).toBe("/project/out")
+    expect(target.sources[0].source).toBe("/project/src/a.ts")
+    expect(target.sources[0].cached).toBe(false)
+    expect(target.sources[0].outputs).toContainEqual({
+      file: "/project/out/a.js",
+      size: "const x = 1;".length,
+    })
+    expect(target.assets).toEqual([
+      {
+        source: "/project/src/data.json",
+        outputs: [{ file: "/project/out/data.json", size: 8 }],
+        cached: false,
+      },
+    ])
+    expect(result.diagnostics).toEqual([])
+    expect(result.duration).toBeGreaterThanOrEqual(0)
+  })
+
+  test("write extra outputs emitted by plugins", async () => {
+    vi.mocked(glob).mockResolvedValueOnce(["/project/src/a.ts"])
+    const buildEnd = vi.fn()
+    const plugin = {
+      name: "listing",
+      emitFile: vi.fn(({ outputs }: { outputs: string[] }) => ({
+        "files.txt": outputs.join("\n"),
+      })),
+      buildEnd,
+    }
+    const result = await pack({
+      srcdir: "/project/src",
+      outdir: "/project/out",
+      plugins: [plugin],
+    })
+    expect(plugin.emitFile.mock.calls[0][0].outputs).toContain(
+      "/project/out/a.js",
+    )
+    expect(writeFileSync).toHaveBeenCalledWith(
+      "/project/out/files.txt",
+      expect.stringContaining("/project/out/a.js"),
+    )
+    const [, emitted] = vi.mocked(packageJson).mock.calls[0]
+    expect(emitted).toContain("/project/out/files.txt")
+    expect(result.targets[0].extras[0].file).toBe("/project/out/files.txt")
+    expect(buildEnd).toHaveBeenCalledWith({ result })
+  })
+
+  test("bundle declarations from entries", async () => {
+    vi.mocked(glob).mockResolvedValueOnce([
+      "/project/src/index.ts",
+      "/project/src/a.ts",
+    ])
+    const transformed = { code: "const x = 1;", map: null, errors: [] }
+    vi.mocked(transformAsync)
+      .mockResolvedValueOnce(transformed as never)
+      .mockResolvedValueOnce(transformed as never)
+    const result = await pack({
+      srcdir: "/project/src",
+      outdir: "/project/out",
+      entries: { ".": "index.ts" },
+      dts: { bundle: true },
+    })
+    const options = vi.mocked(transformAsync).mock.calls[0][2]
+    expect(options?.typescript?.declaration).toBeUndefined()
+    expect(writeFileSync).toHaveBeenCalledWith(
+      "/project/out/index.d.ts",
+      "declare const x: number;\nexport { x };\n" +
+        "//# sourceMappingURL=index.d.ts.map\n",
+    )
+    const [index, a] = result.targets[0].sources
+    expect(index.outputs.map(({ file }) => file)).toContain(
+      "/project/out/index.d.ts.map",
+    )
+    expect(a.outputs.map(({ file }) => file)).toEqual(["/project/out/a.js"])
+  })
+
+  test("bundle modules from entries", async () => {
+    vi.mocked(glob).mockResolvedValueOnce([
+      "/project/src/index.ts",
+      "/project/src/a.ts",
+    ])
+    const result = await pack({
+      srcdir: "/project/src",
+      outdir: "/project/out",
+      entries: { ".": "index.ts" },
+      bundle: true,
+    })
+    expect(writeFileSync).toHaveBeenCalledWith(
+      "/project/out/index.js",
+      "const x = 1;\nexport { x };\n",
+    )
+    const [index, a] = result.targets[0].sources
+    expect(index.outputs.map(({ file }) => file)).toContain(
+      "/project/out/index.js",
+    )
+    expect(a.outputs.map(({ file }) => file)).toEqual(["/project/out/a.d.ts"])
+  })
+
+  test("validate package.json with emitted files", async () => {
+    vi.mocked(glob).mockResolvedValueOnce(["/project/src/a.ts"])
+    await pack({ srcdir: "/project/src", outdir: "/project/out" })
+    const [, emitted] = vi.mocked(packageJson).mock.calls[0]
+    expect(emitted).toContain("/project/out/a.js")
+    expect(emitted).toContain("/project/out/a.d.ts")
+    const [, written] = vi.mocked(writePackageJson).mock.calls[0]
+    expect(written).toEqual(emitted)
+  })
+
+  test("reject with package.json errors", async () => {
+    vi.mocked(packageJson).mockReturnValueOnce([
+      {
+        file: "/project/package.json",
+        line: 1,
+        column: 1,
+        severity: "error",
+        message: "Missing target of main: ./out/index.js",
+      },
+    ])
+    vi.mocked(glob).mockResolvedValueOnce(["/project/src/a.ts"])
+    await expect(pack({})).rejects.toThrow("Build failed with 1 error")
+    expect(writeFileSync).not.toHaveBeenCalled()
+    expect(writePackageJson).not.toHaveBeenCalled()
+  })
+})
+
+describe("checkApi", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  const options = { srcdir: "/project/src", entries: { ".": "index.ts" } }
+  const report =
+    `{\n  ".": {\n    "x": {\n      "kind": "variable",\n` +
+    `      "signature": "const x: number"\n    }\n  }\n}\n`
+
+  test("write the api report beside package.json", () => {
+    const result = checkApi(options, false)
+    expect(result).toMatchObject({ changes: [], bump: "patch", updated: true })
+    expect(writeFileSync).toHaveBeenCalledWith(
+      "/project/api-report.json",
+      report,
+    )
+  })
+
+  test("fail without entries or their declarations", () => {
+    expect(() => checkApi({ srcdir: "/project/src" }, false)).toThrow(PackError)
+    const other = { srcdir: "/project/src", entries: { ".": "other.ts" } }
+    expect(() => checkApi(other, false)).toThrow(PackError)
+    expect(bundleDeclarations).toHaveBeenCalledTimes(1)
+    expect(writeFileSync).not.toHaveBeenCalled()
+  })
+
+  test("fail on breaking changes in ci", () => {
+    vi.mocked(existsSync).mockReturnValueOnce(true)
+    vi.mocked(readFileSync).mockReturnValueOnce(report.replace("x", "y"))
+    expect(() => checkApi(options, true)).toThrow(PackError)
+    expect(writeFileSync).not.toHaveBeenCalled()
+
+    vi.mocked(existsSync).mockReturnValueOnce(true)
+    vi.mocked(readFileSync).mockReturnValueOnce(report.replace("x", "y"))
+    const result = checkApi(options, false)
+    expect(result.bump).toBe("major")
+    expect(result.diagnostics.map(({ severity }) => severity)).toEqual([
+      "advice",
+      "warning",
+    ])
+    expect(writeFileSync).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe("configuration helpers", () => {
+  test("export helpers of configuration files", () => {
+    const plugin: PackPlugin = definePlugin({ name: "license" })
+    const config: PackConfig = defineConfig({ plugins: [plugin] })
+    expect(config).toEqual({ plugins: [{ name: "license" }] })
+  })
 })
 
 describe("run", () => {
@@ -94,4 +588,13 @@ describe("run", () => {
 
     await expect(run(mockOptions)).resolves.not.toThrow()
   })
+
+  test("run for packages of the workspace", async () => {
+    await run({ workspace: true, root: "/workspace", formats: ["cjs"] })
+    expect(collectWorkspace).toHaveBeenCalledWith("/workspace")
+    expect(loadRunOptions).toHaveBeenCalledWith({
+      formats: ["cjs"],
+      root: "/workspace/a",
+    })
+  })
 })
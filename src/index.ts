@@ -1,84 +1,962 @@
+import {
+  apiDiagnostics,
+  ApiChange,
+  ApiReport,
+  compareApi,
+  extractApi,
+  SemverBump,
+  suggestBump,
+} from "@/api.ts"
+import { addBanner, resolveBanner } from "@/banner.ts"
+import { bundleModules, ModuleCode } from "@/bundle.ts"
+import { BuildCache, loadCache } from "@/cache.ts"
+import { toCommonJS } from "@/commonjs.ts"
 import {
   FileOptions,
-  loadOptions,
+  Format,
+  loadRunOptions,
   PackOptions,
   resolveOptions,
   RunPathOptions,
+  targetsOf,
 } from "@/config.ts"
-import consola from "consola"
+import {
+  Diagnostic,
+  isFailure,
+  PackError,
+  toDiagnostics,
+} from "@/diagnostics.ts"
+import { bundleDeclarations } from "@/dts.ts"
+import {
+  isDeclaration,
+  isTypeScript,
+  outputExtensions,
+  outputPath,
+  sourceFormats,
+} from "@/extensions.ts"
+import {
+  BuildManifest,
+  loadManifest,
+  removeOrphans,
+  saveManifest,
+} from "@/manifest.ts"
+import { findPackageJson, packageJson, writePackageJson } from "@/package.ts"
+import {
+  applyAfterTransform,
+  applyBeforeTransform,
+  applyBuildEnd,
+  applyEmitFile,
+  PluginError,
+} from "@/plugins.ts"
+import { resolveReporter } from "@/reporter.ts"
+import { finishSourceMap } from "@/sourcemap.ts"
+import { resolveSpecifiers, rewriteSpecifiers } from "@/specifiers.ts"
+import { resolveTsconfig, tsconfigOptions } from "@/tsconfig.ts"
+import {
+  collectWorkspace,
+  runWorkspace,
+  WorkspaceOptions,
+  WorkspacePackage,
+} from "@/workspace.ts"
 import { glob } from "glob"
-import { readFileSync, writeFileSync } from "node:fs"
+import {
+  copyFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  statSync,
+  writeFileSync,
+} from "node:fs"
 import { basename, dirname, extname, join, relative, resolve } from "node:path"
-import { cwd } from "node:process"
-import { SourceMap, transformAsync } from "oxc-transform"
-import { maybeEmptyDir, maybeWriteFile } from "./utils.ts"
+import { cwd, env } from "node:process"
+import { TransformOptions, transformAsync } from "oxc-transform"
+import { maybeEmptyDir } from "./utils.ts"
+
+// Typed helpers of configuration files, such as library-pack.config.ts.
+export { defineConfig, type PackConfig } from "@/config.ts"
+export { definePlugin, type PackPlugin } from "@/plugins.ts"
+
+/**
+ * Resolve the output path of a source file without extension,
+ * at the same relative path to the outdir as the source file to srcdir.
+ * CommonJS outputs are inside cjsOutdir if specified.
+ *
+ * @param file path to the source file, excepted to be absolute.
+ * @param options options containing srcdir and outdir.
+ * @param format format of the output, default to "esm".
+ */
+export function outputBase(
+  file: string,
+  options: FileOptions,
+  format: Format = "esm",
+): string {
+  const srcdir = resolve(options.srcdir || "src")
+  const cjsOutdir = format === "cjs" ? options.cjsOutdir : undefined
+  const outdir = resolve(cjsOutdir || options.outdir || "out")
+  const outfile = join(outdir, relative(srcdir, file))
+  return join(dirname(outfile), basename(outfile, extname(outfile)))
+}
+
+/** Output js and declaration files of a source file in a format. */
+export type OutputTarget = {
+  format: Format
+  js: string
+  dts: string
+}
+
+/**
+ * Output js and declaration files of a source file in each format.
+ * Declaration sources only output the declaration files.
+ *
+ * @param file path to the source file, excepted to be absolute.
+ * @param options options containing srcdir, outdir and formats.
+ */
+export function outputTargets(
+  file: string,
+  options: FileOptions,
+): OutputTarget[] {
+  return sourceFormats(file, options.formats).map((format) => {
+    const base = outputBase(file, options, format)
+    const outBase = isDeclaration(file) ? base.replace(/\.d$/, "") : base
+    const { js, dts } = outputExtensions(file, format)
+    return { format, js: outBase + js, dts: outBase + dts }
+  })
+}
+
+/**
+ * All files that might be output when transforming a source file,
+ * declarations are only included for TypeScript sources,
+ * and maps unless disabled or inline.
+ *
+ * @param file path to the source file, excepted to be absolute.
+ * @param options options containing srcdir, outdir and formats.
+ */
+export function outputFiles(file: string, options: FileOptions): string[] {
+  const maps = options.sourcemap !== false && options.sourcemap !== "inline"
+  return outputTargets(file, options).flatMap(({ js, dts }) =>
+    isDeclaration(file)
+      ? [dts]
+      : isTypeScript(file)
+        ? [js, dts, ...(maps ? [`${js}.map`, `${dts}.map`] : [])]
+        : [js, ...(maps ? [`${js}.map`] : [])],
+  )
+}
 
 /**
- * Transform a source file using oxc-transformer, output js, dts, and maps.
+ * Output paths of an asset file, at the same relative path to the outdir
+ * as the asset file to srcdir, and also to cjsOutdir if outputting CommonJS.
+ *
+ * @param file path to the asset file, excepted to be absolute.
+ * @param options options containing srcdir, outdir, formats and cjsOutdir.
+ */
+export function assetOutputs(file: string, options: FileOptions): string[] {
+  const srcdir = resolve(options.srcdir || "src")
+  const outdirs = [options.outdir || "out"]
+  if (options.cjsOutdir && options.formats?.includes("cjs")) {
+    outdirs.push(options.cjsOutdir)
+  }
+  return outdirs.map((outdir) => join(resolve(outdir), relative(srcdir, file)))
+}
+
+/**
+ * Copy an asset file into outdir byte-for-byte, see {@link assetOutputs}.
+ *
+ * @param file path to the asset file, excepted to be absolute.
+ * @param options options containing srcdir, outdir, formats and cjsOutdir.
+ */
+export function copyAsset(file: string, options: FileOptions): void {
+  const outputs = assetOutputs(file, options)
+  for (const outfile of outputs) {
+    mkdirSync(dirname(outfile), { recursive: true })
+    copyFileSync(file, outfile)
+  }
+  resolveReporter(options.reporter).fileCopied?.({ file, outputs })
+}
+
+/**
+ * Rewrite specifiers of outputs in the format,
+ * relative imports refer to the CommonJS tree only when it's output.
+ */
+function specifierRewrite(
+  rewrites: Map<string, string>,
+  format: Format,
+  options: FileOptions,
+): (specifier: string) => string {
+  return (specifier) => {
+    const rewritten = rewrites.get(specifier) || specifier
+    if (!rewritten.startsWith("./") && !rewritten.startsWith("../")) {
+      return rewritten
+    }
+    const cjs = format === "cjs" && options.formats?.includes("cjs")
+    return outputPath(rewritten, cjs ? "cjs" : "esm")
+  }
+}
+
+/**
+ * Pass a declaration source through as the declaration outputs,
+ * with its specifiers rewritten as the transformed declarations.
+ */
+function passDeclaration(file: string, options: FileOptions): TransformResult {
+  if (options.dts?.bundle) return { outputs: {}, diagnostics: [] }
+  const code = readFileSync(file, "utf-8")
+  const { rewrites, diagnostics } = resolveSpecifiers(file, code, options)
+  if (diagnostics.some((d) => isFailure(d, options.warningsAsErrors))) {
+    return { outputs: {}, diagnostics }
+  }
+
+  const outputs: Record<string, string> = {}
+  for (const { format, dts } of outputTargets(file, options)) {
+    const rewrite = specifierRewrite(rewrites, format, options)
+    outputs[dts] = rewriteSpecifiers(dts, code, rewrite).code
+  }
+  return { outputs, diagnostics }
+}
+
+/**
+ * Adjust options of oxc-transform for the source file,
+ * declarations will be disabled for JavaScript sources,
+ * plugins of the packing are not passed,
+ * and maps are generated unless disabled, see {@link finishSourceMap}.
+ * Declarations are also disabled when bundled from entries instead.
+ */
+function sourceOptions(file: string, options: FileOptions): TransformOptions {
+  const plugins = Array.isArray(options.plugins) ? undefined : options.plugins
+  const sourcemap = options.sourcemap !== false
+  if (isTypeScript(file) && !options.dts?.bundle) {
+    return { ...options, plugins, sourcemap }
+  }
+  const typescript = { ...options.typescript, declaration: undefined }
+  return { ...options, plugins, sourcemap, typescript }
+}
+
+/** Outputs of a source file, and diagnostics reported when producing them. */
+export type TransformResult = {
+  /** Contents of output files keyed by their absolute paths. */
+  outputs: Record<string, string>
+  diagnostics: Diagnostic[]
+  /** Whether the outputs are reused from the build cache. */
+  cached?: boolean
+  /** ES module code of a source file to bundle, see the bundle option. */
+  module?: ModuleCode
+}
+
+/** File emitted by the packing, with its size in bytes. */
+export type EmittedFile = {
+  file: string
+  size: number
+}
+
+/** Files emitted from a source file or an asset by the packing. */
+export type SourceResult = {
+  /** Absolute path to the source file or asset. */
+  source: string
+  outputs: EmittedFile[]
+  /** Whether the outputs are reused from the build cache. */
+  cached: boolean
+}
+
+/** Result of packing a build target, see {@link targetsOf}. */
+export type TargetResult = {
+  /** Resolved options of the build target. */
+  options: PackOptions
+  sources: SourceResult[]
+  assets: SourceResult[]
+  /** Extra outputs emitted by plugins, see {@link PackPlugin}. */
+  extras: EmittedFile[]
+}
+
+/** Structured result of the packing, see {@link pack}. */
+export type PackResult = {
+  targets: TargetResult[]
+  /** Diagnostics reported by all build targets and the package.json. */
+  diagnostics: Diagnostic[]
+  /** Duration of the packing in milliseconds. */
+  duration: number
+}
+
+/**
+ * Transform a source file using oxc-transformer into js, dts, and maps,
+ * without writing them.
  *
  * The output file(s) will be at the same relative path to the outdir
  * in options as the source file related to srcdir.
- * The source map will be force enabled.
+ * The output extensions follow the source one (see {@link outputExtensions}),
+ * such as .mjs and .d.mts from .mts sources.
+ * CommonJS outputs are converted from the ES module ones,
+ * see {@link toCommonJS}.
+ * Source maps are output according to the sourcemap option,
+ * see {@link finishSourceMap}.
+ * Declaration sources are passed through instead of being transformed.
+ * There will be no output when there's any failing diagnostic.
+ * Outputs are reused from the cache if given and the source is unchanged.
+ * The banner and footer are added to the js outputs with maps shifted.
+ * The beforeTransform and afterTransform hooks of plugins are applied,
+ * see {@link PackPlugin}.
  *
  * @param file path to the source file, excepted to be absolute.
  * @param options options for the transformation using oxc-transformer.
+ * @param cache persistent build cache, optional.
  */
-export async function transform(file: string, options: FileOptions) {
-  const srcdir = resolve(options.srcdir || "src")
-  const outdir = resolve(options.outdir || "out")
-  const outfile = join(outdir, relative(srcdir, file))
-  const outfileDir = dirname(outfile)
-  const outname = basename(outfile, extname(outfile))
-  const outBase = join(outfileDir, outname)
+export async function transformFile(
+  file: string,
+  options: FileOptions,
+  cache?: BuildCache,
+): Promise<TransformResult> {
+  const result = isDeclaration(file)
+    ? passDeclaration(file, options)
+    : await transformSource(file, options, cache)
+  if (result.cached || Object.keys(result.outputs).length === 0) return result
+  const context = { file, options }
+  const outputs = await applyAfterTransform(result.outputs, context)
+  return { ...result, outputs }
+}
 
-  const code = readFileSync(file, "utf-8")
-  const result = await transformAsync(file, code, options)
+/** Transform a source file other than declarations, see {@link transformFile}. */
+async function transformSource(
+  file: string,
+  options: FileOptions,
+  cache?: BuildCache,
+): Promise<TransformResult> {
+  const source = readFileSync(file, "utf-8")
+  const cached = cache?.get(file, source)
+  if (cached) return { ...cached, cached: true }
+  const code = await applyBeforeTransform(source, { file, options })
 
-  function resolveSourceMap(raw?: SourceMap) {
-    if (!raw) return undefined
-    const sources = raw?.sources!.map((s) => relative(outfileDir, s))
-    return JSON.stringify({
-      ...raw,
-      sources: sources,
-      sourcesContent: undefined,
-    } satisfies SourceMap)
+  const result = await transformAsync(file, code, sourceOptions(file, options))
+  const specifiers = resolveSpecifiers(file, code, options)
+  const diagnostics = [
+    ...toDiagnostics(file, code, result.errors),
+    ...specifiers.diagnostics,
+  ]
+  if (diagnostics.some((d) => isFailure(d, options.warningsAsErrors))) {
+    return { outputs: {}, diagnostics }
   }
 
-  writeFileSync(`${outBase}.js`, result.code)
-  maybeWriteFile(`${outBase}.d.ts`, result.declaration)
-  maybeWriteFile(`${outBase}.js.map`, resolveSourceMap(result.map))
-  maybeWriteFile(`${outBase}.d.ts.map`, resolveSourceMap(result.declarationMap))
-  consola.success(`Transformed ${file}`)
+  const outputs: Record<string, string> = {}
+  const output = (outfile: string, data?: string) => {
+    if (data !== undefined) outputs[outfile] = data
+  }
+  for (const target of outputTargets(file, options)) {
+    const { js, dts, format } = target
+    const module = { code: result.code, map: result.map }
+    const jsOutput = formatModule(
+      file,
+      target,
+      module,
+      specifiers.rewrites,
+      options,
+    )
+    output(js, jsOutput.code)
+    output(`${js}.map`, jsOutput.map)
+    if (!result.declaration) continue
+    const rewrite = specifierRewrite(specifiers.rewrites, format, options)
+    const declaration = rewriteSpecifiers(
+      dts,
+      result.declaration,
+      rewrite,
+      result.declarationMap,
+    )
+    const dtsOutput = finishSourceMap(
+      dts,
+      declaration.code,
+      declaration.map,
+      options,
+    )
+    output(dts, dtsOutput.code)
+    output(`${dts}.map`, dtsOutput.map)
+  }
+  // Modules with their original specifiers are bundled from entries.
+  const module = options.bundle
+    ? { code: result.code, map: result.map }
+    : undefined
+  cache?.set(file, source, { outputs, diagnostics, module })
+  return { outputs, diagnostics, module }
 }
 
 /**
- * Pack source files according to the options.
- * @param options options for the packing.
+ * Format the ES module code of a source file into its js output,
+ * with specifiers rewritten, converted into CommonJS if targeted,
+ * and the banner and footer added, see {@link transformFile}.
+ *
+ * @param file path to the source file, excepted to be absolute.
+ * @param target the output target of the source file.
+ * @param module the ES module code with its source map.
+ * @param rewrites specifiers to rewrite, see {@link resolveSpecifiers}.
+ * @param options options for the output.
+ * @returns the content of the output file and of its .map file if any.
+ */
+function formatModule(
+  file: string,
+  target: OutputTarget,
+  module: ModuleCode,
+  rewrites: Map<string, string>,
+  options: FileOptions,
+): { code: string; map?: string } {
+  const rewrite = specifierRewrite(rewrites, target.format, options)
+  let js = rewriteSpecifiers(target.js, module.code, rewrite, module.map)
+  if (target.format === "cjs") js = toCommonJS(target.js, js.code, js.map)
+  const banner = resolveBanner(file, options.banner, options)
+  const footer = resolveBanner(file, options.footer, options)
+  js = addBanner(js.code, banner, footer, js.map)
+  return finishSourceMap(target.js, js.code, js.map, options)
+}
+
+/**
+ * Write the outputs of a source file into their directories.
+ *
+ * @param file path to the source file, excepted to be absolute.
+ * @param result outputs of the source file, see {@link transformFile}.
+ * @param options options containing the reporter.
+ */
+export function writeOutputs(
+  file: string,
+  result: TransformResult,
+  options: FileOptions = {},
+): void {
+  const entries = Object.entries(result.outputs)
+  if (entries.length === 0) return
+  for (const [outfile, data] of entries) {
+    mkdirSync(dirname(outfile), { recursive: true })
+    writeFileSync(outfile, data)
+  }
+  const reporter = resolveReporter(options.reporter)
+  const event = { file, outputs: Object.keys(result.outputs) }
+  if (result.cached) reporter.fileCached?.(event)
+  else reporter.fileTransformed?.(event)
+}
+
+/**
+ * Transform a source file and write its outputs,
+ * see {@link transformFile} for details.
+ * Nothing will be written when there's any failing diagnostic.
+ *
+ * @param file path to the source file, excepted to be absolute.
+ * @param options options for the transformation using oxc-transformer.
+ * @param cache persistent build cache, optional.
+ * @returns diagnostics reported when transforming the file.
+ */
+export async function transform(
+  file: string,
+  options: FileOptions,
+  cache?: BuildCache,
+): Promise<Diagnostic[]> {
+  const result = await transformFile(file, options, cache)
+  writeOutputs(file, result, options)
+  return result.diagnostics
+}
+
+/**
+ * Collect source files matching the includes and excludes inside srcdir,
+ * files matching the assets are excluded.
+ * @param options resolved options for the packing.
+ * @returns absolute paths to the matched source files.
+ */
+export async function collectFiles(options: PackOptions): Promise<string[]> {
+  return await glob(options.includes || [], {
+    cwd: options.srcdir,
+    ignore: [...(options.excludes || []), ...(options.assets || [])],
+    nodir: true,
+    absolute: true,
+  })
+}
+
+/**
+ * Collect asset files matching the assets and excludes inside srcdir.
+ * @param options resolved options for the packing.
+ * @returns absolute paths to the matched asset files.
  */
-export async function pack(options: PackOptions) {
-  const resolvedOptions = resolveOptions(options)
-  const files = await glob(resolvedOptions?.includes || [], {
-    cwd: resolvedOptions.srcdir,
-    ignore: resolvedOptions.excludes,
+export async function collectAssets(options: PackOptions): Promise<string[]> {
+  if (!options.assets?.length) return []
+  return await glob(options.assets, {
+    cwd: options.srcdir,
+    ignore: options.excludes,
     nodir: true,
     absolute: true,
   })
+}
+
+/** Diagnostics of a build target, failing according to its options. */
+type TargetDiagnostics = { diagnostics: Diagnostic[]; options: FileOptions }
+
+/** Sources and assets of a build target, transformed in memory. */
+type TargetBuild = TargetDiagnostics & {
+  options: PackOptions
+  files: string[]
+  assets: string[]
+  results: TransformResult[]
+  /** Contents of extra outputs emitted by plugins, by absolute paths. */
+  extras: Record<string, string>
+}
+
+/** Whether any diagnostic fails the build of its target. */
+function failing(reports: TargetDiagnostics[]): boolean {
+  return reports.some(({ diagnostics, options }) =>
+    diagnostics.some((d) => isFailure(d, options.warningsAsErrors)),
+  )
+}
+
+/**
+ * Report diagnostics of all build targets together,
+ * and throw when any of them fails the build.
+ *
+ * @param reports diagnostics of each build target with its options.
+ */
+function settle(reports: TargetDiagnostics[]): void {
+  for (const { diagnostics, options } of reports) {
+    const reporter = resolveReporter(options.reporter)
+    for (const diagnostic of diagnostics) reporter.diagnostic?.(diagnostic)
+  }
+  const failures = reports.flatMap(({ diagnostics, options }) =>
+    diagnostics.filter((d) => isFailure(d, options.warningsAsErrors)),
+  )
+  if (failures.length > 0) throw new PackError(failures)
+}
+
+/**
+ * Absolute paths of all files output from the sources and assets.
+ * When bundling, only outputs left after bundling are included.
+ */
+function emittedFiles(build: TargetBuild): string[] {
+  const bundled = build.options.bundle || build.options.dts?.bundle
+  return [
+    ...build.files.flatMap((file, index) =>
+      outputFiles(file, build.options).filter(
+        (output) => !bundled || output in build.results[index].outputs,
+      ),
+    ),
+    ...build.assets.flatMap((file) => assetOutputs(file, build.options)),
+    ...Object.keys(build.extras),
+  ]
+}
+
+/**
+ * Bundle declarations of each entry, see {@link bundleDeclarations},
+ * and finish their maps as the declaration outputs of the entry.
+ *
+ * @param options resolved options containing srcdir and entries.
+ * @returns contents of the declaration outputs keyed by their absolute paths,
+ *   grouped by absolute paths to the entries.
+ */
+export function declarationBundles(options: PackOptions): {
+  outputs: Map<string, Record<string, string>>
+  diagnostics: Diagnostic[]
+} {
+  const { bundles, diagnostics } = bundleDeclarations(options)
+  const sourcemap =
+    options.typescript?.declaration?.sourcemap === false
+      ? false
+      : options.sourcemap
+  const outputs = new Map<string, Record<string, string>>()
+  for (const [entry, { code, map }] of bundles) {
+    const files: Record<string, string> = {}
+    for (const { dts } of outputTargets(entry, options)) {
+      const finished = finishSourceMap(dts, code, map, {
+        ...options,
+        sourcemap,
+      })
+      files[dts] = finished.code
+      if (finished.map !== undefined) files[`${dts}.map`] = finished.map
+    }
+    outputs.set(entry, files)
+  }
+  return { outputs, diagnostics }
+}
+
+/**
+ * Replace js outputs of the entries with the modules bundled from them,
+ * and drop those of the sources inlined, see {@link bundleModules}.
+ */
+function addModuleBundles(build: TargetBuild): TargetBuild {
+  const { options } = build
+  const sources = new Map<string, ModuleCode>()
+  build.files.forEach((file, index) => {
+    const { module } = build.results[index]
+    if (module) sources.set(file, module)
+  })
+  const { bundles, inlined, diagnostics } = bundleModules(options, sources)
+  const results = build.results.map((result, index) => {
+    const file = build.files[index]
+    const bundle = bundles.get(file)
+    if (!bundle && !inlined.has(file)) return result
+    const outputs = { ...result.outputs }
+    for (const target of outputTargets(file, options)) {
+      delete outputs[target.js]
+      delete outputs[`${target.js}.map`]
+      if (!bundle) continue
+      const output = formatModule(file, target, bundle, new Map(), options)
+      outputs[target.js] = output.code
+      if (output.map !== undefined) outputs[`${target.js}.map`] = output.map
+    }
+    return { ...result, outputs }
+  })
+  const all = [...build.diagnostics, ...diagnostics]
+  return { ...build, results, diagnostics: all }
+}
+
+/** Add declarations bundled from entries to the outputs of the entries. */
+function addDeclarationBundles(build: TargetBuild): TargetBuild {
+  const { outputs, diagnostics } = declarationBundles(build.options)
+  const results = build.results.map((result, index) => {
+    const bundled = outputs.get(build.files[index])
+    return bundled
+      ? { ...result, outputs: { ...result.outputs, ...bundled } }
+      : result
+  })
+  return {
+    ...build,
+    results,
+    diagnostics: [...build.diagnostics, ...diagnostics],
+  }
+}
+
+/**
+ * Transform all sources of a build target in memory,
+ * and collect extra outputs from plugins unless any source fails.
+ * Unsupported settings of the tsconfig are warned along with the sources.
+ * Modules and declarations are bundled from entries when enabled,
+ * see the bundle and dts options.
+ */
+async function transformTarget(
+  options: PackOptions,
+  cached: boolean,
+): Promise<TargetBuild> {
+  const files = await collectFiles(options)
+  const assets = await collectAssets(options)
+  const cache = cached ? loadCache(options, files) : undefined
+  const results = await Promise.all(
+    files.map((file) => transformFile(file, options, cache)),
+  )
+  const tsconfig = resolveTsconfig(options)
+  const diagnostics = [
+    ...(tsconfig ? tsconfigOptions(tsconfig).diagnostics : []),
+    ...results.flatMap((result) => result.diagnostics),
+  ]
+  let build = { options, files, assets, results, diagnostics, extras: {} }
+  if (failing([build])) return build
+  if (options.bundle) build = addModuleBundles(build)
+  if (options.dts?.bundle) build = addDeclarationBundles(build)
+  if (failing([build])) return build
+  const outputs = emittedFiles(build)
+  return { ...build, extras: await applyEmitFile({ options, outputs }) }
+}
 
-  if (resolvedOptions.emptyOutdir) maybeEmptyDir(resolvedOptions.outdir)
-  await Promise.all(files.map((file) => transform(file, resolvedOptions)))
+/**
+ * Outputs of a build target keyed by their sources,
+ * as recorded in the build manifest, see {@link writeTarget}.
+ * Extra outputs are recorded under the outdir.
+ */
+function targetManifest(build: TargetBuild): BuildManifest {
+  const manifest: BuildManifest = { outputs: {} }
+  build.files.forEach((file, index) => {
+    manifest.outputs[file] = Object.keys(build.results[index].outputs)
+  })
+  for (const file of build.assets) {
+    manifest.outputs[file] = assetOutputs(file, build.options)
+  }
+  if (Object.keys(build.extras).length > 0) {
+    const outdir = resolve(build.options.outdir || "out")
+    manifest.outputs[outdir] = Object.keys(build.extras)
+  }
+  return manifest
+}
+
+/**
+ * Write outputs, copy assets and write extra outputs of a build target,
+ * see {@link pack}.
+ */
+function writeTarget(build: TargetBuild): void {
+  build.files.forEach((file, index) => {
+    writeOutputs(file, build.results[index], build.options)
+  })
+  for (const file of build.assets) copyAsset(file, build.options)
+  for (const [outfile, data] of Object.entries(build.extras)) {
+    mkdirSync(dirname(outfile), { recursive: true })
+    writeFileSync(outfile, data)
+  }
+}
+
+/** Result of a written build target, with the sizes of its outputs. */
+function targetResult(build: TargetBuild): TargetResult {
+  return {
+    options: build.options,
+    sources: build.files.map((file, index) => ({
+      source: file,
+      outputs: Object.entries(build.results[index].outputs).map(
+        ([output, code]) => ({ file: output, size: Buffer.byteLength(code) }),
+      ),
+      cached: build.results[index].cached || false,
+    })),
+    assets: build.assets.map((file) => {
+      const { size } = statSync(file)
+      const outputs = assetOutputs(file, build.options)
+      return {
+        source: file,
+        outputs: outputs.map((output) => ({ file: output, size })),
+        cached: false,
+      }
+    }),
+    extras: Object.entries(build.extras).map(([file, data]) => ({
+      file,
+      size: Buffer.byteLength(data),
+    })),
+  }
+}
+
+/**
+ * Pack source files according to the options, and copy the assets.
+ *
+ * 1. All sources are transformed in memory before writing any output,
+ *    so nothing will be written when any of them fails.
+ *    The package.json is validated against the files to emit before as well,
+ *    see the packageJson option.
+ * 2. Unchanged sources reuse their outputs from the build cache,
+ *    see the cache option.
+ * 3. Outputs of the previous packing recorded in the build manifest
+ *    but not output this time are removed, see {@link removeOrphans}.
+ * 4. Generated exports are written into the package.json
+ *    after all outputs are written, see the packageJson option.
+ * 5. Build targets are transformed concurrently, see {@link targetsOf},
+ *    and diagnostics of all of them are reported together.
+ * 6. Hooks of plugins run around transforming and packing,
+ *    see {@link PackPlugin}.
+ *
+ * Rejects with a {@link PackError} when any file fails to transform,
+ * or with warnings of the package.json when warningsAsErrors is set.
+ *
+ * @param options options for the packing.
+ * @returns emitted files of each source, diagnostics and the duration.
+ */
+export async function pack(options: PackOptions): Promise<PackResult> {
+  const start = performance.now()
+  const targets = targetsOf(options).map(resolveOptions)
+  // Targets share the reporter, unless set differently in the targets.
+  const reporter = resolveReporter(targets[0]?.reporter)
+  reporter.buildStart?.({ targets })
+  try {
+    const result = await packTargets(targets, start)
+    reporter.buildEnd?.({ result })
+    await applyBuildEnd(targets, { result })
+    return result
+  } catch (error) {
+    reporter.buildEnd?.({ error })
+    if (!(error instanceof PluginError) || error.hook !== "buildEnd") {
+      await applyBuildEnd(targets, { error })
+    }
+    throw error
+  }
+}
+
+/**
+ * Transform the resolved build targets in memory
+ * and validate the package.json against the files to emit,
+ * shared by {@link pack} and {@link check} before writing anything.
+ * Diagnostics are reported, and it throws when any of them fails.
+ *
+ * @param targets resolved options of all build targets.
+ * @param cached whether to reuse outputs from the build cache.
+ */
+async function buildTargets(
+  targets: PackOptions[],
+  cached: boolean,
+): Promise<{
+  builds: TargetBuild[]
+  manifests: BuildManifest[]
+  emitted: Set<string>
+  reports: TargetDiagnostics[]
+}> {
+  const builds = await Promise.all(
+    targets.map((target) => transformTarget(target, cached)),
+  )
+  // Settling throws here, as some of the sources fail.
+  if (failing(builds)) settle(builds)
+
+  const manifests = builds.map(targetManifest)
+  const emitted = new Set(
+    manifests.flatMap((manifest) => Object.values(manifest.outputs).flat()),
+  )
+  const reports = [
+    ...builds,
+    { diagnostics: packageJson(targets, emitted), options: targets[0] },
+  ]
+  settle(reports)
+  return { builds, manifests, emitted, reports }
+}
+
+/** Pack the resolved build targets, see {@link pack}. */
+async function packTargets(
+  targets: PackOptions[],
+  start: number,
+): Promise<PackResult> {
+  const { builds, manifests, emitted, reports } = await buildTargets(
+    targets,
+    true,
+  )
+
+  for (const { options } of builds) {
+    if (!options.emptyOutdir) continue
+    maybeEmptyDir(options.outdir)
+    maybeEmptyDir(options.cjsOutdir)
+  }
+  builds.forEach(writeTarget)
+  builds.forEach(({ options }, index) => {
+    removeOrphans(loadManifest(options), emitted, options)
+    saveManifest(options, manifests[index])
+  })
+
+  const bins = {
+    diagnostics: writePackageJson(targets, emitted),
+    options: targets[0],
+  }
+  settle([bins])
+  return {
+    targets: builds.map(targetResult),
+    diagnostics: [...reports, bins].flatMap((report) => report.diagnostics),
+    duration: Math.round(performance.now() - start),
+  }
+}
+
+/**
+ * Transform all source files in memory without writing any output,
+ * useful to verify the sources and configuration before packing.
+ * The package.json is validated against the files that would be output.
+ * Rejects with a {@link PackError} when any file fails to transform.
+ *
+ * @param options options for the packing.
+ * @returns diagnostics reported by oxc-transformer.
+ */
+export async function check(options: PackOptions): Promise<Diagnostic[]> {
+  const targets = targetsOf(options).map(resolveOptions)
+  const { reports } = await buildTargets(targets, false)
+  return reports.flatMap((report) => report.diagnostics)
+}
+
+/** Result of checking the API of entries, see {@link checkApi}. */
+export type ApiCheckResult = {
+  /** Absolute path to the API report. */
+  file: string
+  api: ApiReport
+  changes: ApiChange[]
+  bump: SemverBump
+  /** Whether the API report was written. */
+  updated: boolean
+  diagnostics: Diagnostic[]
+}
+
+/** Whether running in CI, where the CI environment variable is set. */
+function isCI(): boolean {
+  return !!env.CI && env.CI !== "false" && env.CI !== "0"
+}
+
+/**
+ * Check the exported API of the entries against the committed API report,
+ * so that exports are not removed or changed by accident.
+ *
+ * 1. The API is extracted from the declarations bundled from each entry
+ *    of the first target with entries, see {@link extractApi}.
+ * 2. Changes against the report are reported with a suggested semver bump,
+ *    see {@link compareApi}, and the report is written with the current API.
+ *    Committing the report approves the changes.
+ * 3. In CI the report is never written,
+ *    and a missing report or breaking changes fail the check.
+ * Rejects with a {@link PackError} when failing.
+ *
+ * @param options options for the packing.
+ * @param ci whether running in CI, detected from the environment by default.
+ */
+export function checkApi(
+  options: PackOptions,
+  ci: boolean = isCI(),
+): ApiCheckResult {
+  const targets = targetsOf(options).map(resolveOptions)
+  const target =
+    targets.find((target) => Object.keys(target.entries || {}).length > 0) ||
+    targets[0]
+  const srcdir = resolve(target.srcdir || "src")
+  const manifest = findPackageJson(srcdir)
+  const file = target.apiReport
+    ? resolve(target.apiReport)
+    : join(manifest ? dirname(manifest) : cwd(), "api-report.json")
+  const fail = (
+    file: string,
+    message: string,
+    severity: Diagnostic["severity"] = "error",
+  ): Diagnostic => {
+    return { file, line: 1, column: 1, severity, message }
+  }
+  const entries = Object.entries(target.entries || {}).sort(([a], [b]) =>
+    a < b ? -1 : 1,
+  )
+  if (entries.length === 0) {
+    const diagnostic = fail(srcdir, "Checking the API requires entries")
+    settle([{ diagnostics: [diagnostic], options: target }])
+  }
+
+  const { bundles, diagnostics } = bundleDeclarations(target)
+  const api: ApiReport = {}
+  for (const [subpath, path] of entries) {
+    const entry = resolve(srcdir, path)
+    const bundle = bundles.get(entry)
+    if (bundle) {
+      api[subpath] = extractApi(entry, bundle.code)
+    } else if (!diagnostics.some((diagnostic) => diagnostic.file === entry)) {
+      diagnostics.push(fail(entry, `Entry not bundled: ${path}`))
+    }
+  }
+  settle([{ diagnostics, options: target }])
+  const text = `${JSON.stringify(api, null, 2)}\n`
+  const previous = existsSync(file) ? readFileSync(file, "utf-8") : undefined
+  const changes = previous ? compareApi(JSON.parse(previous), api) : []
+  const severity = ci ? "error" : "warning"
+  const reports = apiDiagnostics(file, previous || "", changes, severity)
+  const help = 'Run "library-pack check api" and commit the report'
+  if (ci && previous === undefined) {
+    reports.push({ ...fail(file, "API report not found"), help })
+  } else if (ci && previous !== text) {
+    const message = "API report is out of date"
+    reports.push({ ...fail(file, message, "warning"), help })
+  }
+
+  const updated = !ci && previous !== text
+  if (updated) writeFileSync(file, text)
+  settle([{ diagnostics: reports, options: target }])
+  const bump = suggestBump(changes)
+  return { file, api, changes, bump, updated, diagnostics: reports }
 }
 
 /**
  * Run the packing process with options,
  * also the entrypoint of the executable of this package.
- * When options
+ * When file or root is specified, or no options given at all,
+ * the options will be loaded from the configuration file,
+ * and the other options will override values from the file.
+ * In workspace mode, all packages of the workspace in root
+ * are packed in dependency order, see {@link runWorkspace},
+ * and the result contains build targets of all of them.
  *
  * @param options options for the packing or configuration file loading.
+ * @returns result of the packing, see {@link pack}.
  */
-export async function run(options?: PackOptions & RunPathOptions) {
-  if (options?.file || options?.root) {
-    return await pack(await loadOptions(options))
-  } else if (!options || Object.keys(options).length === 0) {
-    return await pack(await loadOptions({ root: cwd() }))
-  } else return await pack(options!)
+export async function run(
+  options?: PackOptions & RunPathOptions & WorkspaceOptions,
+): Promise<PackResult> {
+  const { workspace, bail, ...runOptions } = options || {}
+  if (!workspace) return await pack(await loadRunOptions(runOptions))
+
+  const start = performance.now()
+  const { file: _file, root, ...overrides } = runOptions
+  const packages = await collectWorkspace(resolve(root || cwd()))
+  const results: PackResult[] = []
+  const packPackage = async (pkg: WorkspacePackage) => {
+    const options = await loadRunOptions({ ...overrides, root: pkg.dir })
+    results.push(await pack(options))
+  }
+  await runWorkspace(packages, packPackage, {
+    bail,
+    reporter: overrides.reporter,
+  })
+  return {
+    targets: results.flatMap((result) => result.targets),
+    diagnostics: results.flatMap((result) => result.diagnostics),
+    duration: Math.round(performance.now() - start),
+  }
 }
@@ -0,0 +1,100 @@
+import { parseSync } from "oxc-parser"
+import { describe, expect, test } from "vitest"
+import {
+  exportSpecifiers,
+  LinkedModule,
+  linkModules,
+  linkStatement,
+  moduleOrder,
+  Origin,
+} from "./link.js"
+
+/** Link the statements of the code as a module, resolving "./x" to "/x". */
+function link(file: string, code: string): LinkedModule {
+  const module: LinkedModule = {
+    file,
+    code,
+    source: code,
+    edits: [],
+    names: [],
+    imports: new Map(),
+    exports: new Map(),
+    stars: [],
+    dependencies: new Set(),
+    sideEffects: [],
+  }
+  const origin = (
+    node: { source: { value: string }; start: number },
+    imported: string,
+  ): Origin => {
+    const specifier = node.source.value
+    const external = !specifier.startsWith("./")
+    const source = external ? specifier : specifier.slice(1)
+    if (!external) module.dependencies.add(source)
+    return { source, external, imported, attributes: "", start: node.start }
+  }
+  const { program } = parseSync(file, code)
+  for (const node of program.body) {
+    if (linkStatement(module, node, origin)) continue
+    if (node.type === "VariableDeclaration") {
+      for (const { id } of node.declarations) {
+        if (id.type === "Identifier") module.names.push(id.name)
+      }
+    }
+  }
+  return module
+}
+
+describe("linkStatement", () => {
+  test("remove imports and exports with their lines", () => {
+    const module = link(
+      "/a",
+      `import { b } from "./b"\nexport { b as c }\nexport * from "pkg"\n`,
+    )
+    expect(module.edits).toEqual([
+      { start: 0, end: 24, text: "" },
+      { start: 24, end: 42, text: "" },
+      { start: 42, end: 62, text: "" },
+    ])
+    expect(module.exports).toEqual(new Map([["c", "b"]]))
+    expect(module.stars.map((star) => star.source)).toEqual(["pkg"])
+  })
+})
+
+describe("linkModules", () => {
+  test("rename colliding names and resolve re-exports", () => {
+    const modules = new Map([
+      ["/a", link("/a", `import { a as b } from "./b"\nconst a = b\n`)],
+      ["/b", link("/b", `const a = 1\nexport { a }\nexport * from "./c"`)],
+      ["/c", link("/c", `import { x } from "pkg"\nexport { x as c }`)],
+    ])
+    const order = moduleOrder("/a", modules, (file) => modules.get(file)!)
+    expect(order.map((module) => module.file)).toEqual(["/c", "/b", "/a"])
+    const linker = linkModules(order, modules, {}, ["x"])
+    const scope = linker.scopeOf(modules.get("/a")!, [])
+    expect(scope.get("a")?.name).toBe("a$1")
+    expect(scope.get("b")?.name).toBe("a")
+    expect(exportSpecifiers(linker.exportsOf(modules.get("/b")!))).toBe(
+      "a, x$1 as c",
+    )
+    expect(linker.header(modules.get("/a")!)).toEqual([
+      `import { x as x$1 } from "pkg";`,
+    ])
+  })
+
+  test("report names not exported", () => {
+    const modules = new Map([
+      ["/a", link("/a", `import { missing } from "./b"`)],
+      ["/b", link("/b", `export {}`)],
+    ])
+    const order = moduleOrder("/a", modules, (file) => modules.get(file)!)
+    const diagnostics: [] = []
+    linkModules(order, modules, { srcdir: "/" }).scopeOf(
+      modules.get("/a")!,
+      diagnostics,
+    )
+    expect(diagnostics).toMatchObject([
+      { file: "/a", message: `"missing" is not exported by b` },
+    ])
+  })
+})
@@ -0,0 +1,416 @@
+import { nameOf } from "@/ast.ts"
+import { PackOptions } from "@/config.ts"
+import { createDiagnostic, Diagnostic } from "@/diagnostics.ts"
+import { Edit, originalOffset } from "@/sourcemap.ts"
+import { readFileSync } from "node:fs"
+import { dirname, isAbsolute, relative, resolve, sep } from "node:path"
+import { ImportDeclaration, Node } from "oxc-parser"
+import { SourceMap } from "oxc-transform"
+
+/**
+ * Where an imported or re-exported name comes from.
+ * Sources not bundled are kept as imports,
+ * local ones as absolute paths to be relative to the entry.
+ */
+export type Origin = {
+  /** Absolute path to a local file, or a package specifier. */
+  source: string
+  external: boolean
+  /** Name exported by the source, "*" for its namespace. */
+  imported: string
+  /** Import attributes such as ` with { type: "json" }`, if any. */
+  attributes: string
+  /** Offset of the statement inside the module code. */
+  start: number
+}
+
+/**
+ * A module to bundle, such as module code or declarations of a source file,
+ * with its imports and exports to link, see {@link linkModules}.
+ */
+export type LinkedModule = {
+  file: string
+  code: string
+  map?: SourceMap
+  /** Content of the source file, read when reporting unless loaded. */
+  source?: string
+  /** Edits removing imports and exports, independent of the entry. */
+  edits: Edit[]
+  /** Names of top-level bindings. */
+  names: string[]
+  imports: Map<string, Origin>
+  /** Exported names with their local names, or origins of re-exports. */
+  exports: Map<string, string | Origin>
+  stars: Origin[]
+  /** Bundled source files imported or re-exported. */
+  dependencies: Set<string>
+  /** Sources imported only for their side effects, kept unless bundled. */
+  sideEffects: Origin[]
+}
+
+/** Name of a binding in the bundle, shared by all modules referring to it. */
+export type Binding = { name: string }
+
+/** An exported name with its binding in the bundle. */
+export type Member = { name: string; binding: Binding }
+
+/** Origin of an imported name, undefined when it fails to resolve. */
+type OriginOf = (
+  node: Pick<ImportDeclaration, "source" | "attributes" | "start">,
+  imported: string,
+) => Origin | undefined
+
+/** Report a problem of the module code at the offset inside its source. */
+export function report(
+  diagnostics: Diagnostic[],
+  module: LinkedModule,
+  offset: number,
+  message: string,
+): void {
+  const { file, code, map } = module
+  const source = module.source ?? readFileSync(file, "utf-8")
+  const start =
+    code === source
+      ? offset
+      : map
+        ? originalOffset(code, map, source, offset)
+        : 0
+  diagnostics.push(createDiagnostic(file, source, start, message))
+}
+
+/** Remove code of the module, whole lines when the code occupies them. */
+export function remove(module: LinkedModule, start: number, end: number): void {
+  const { code } = module
+  const line = start === 0 || code[start - 1] === "\n"
+  end = line && code[end] === "\n" ? end + 1 : end
+  module.edits.push({ start, end, text: "" })
+}
+
+/**
+ * Link an import, or an export from another module, into the module,
+ * and remove the statement, which will be declared by the bundle.
+ *
+ * @param module the module containing the statement.
+ * @param node a top-level statement of the module.
+ * @param origin origin of names imported by the statement.
+ * @returns whether the statement is linked, false for other statements
+ *   and exports of declarations.
+ */
+export function linkStatement(
+  module: LinkedModule,
+  node: Node,
+  origin: OriginOf,
+): boolean {
+  switch (node.type) {
+    case "ImportDeclaration": {
+      remove(module, node.start, node.end)
+      const { specifiers } = node
+      if (specifiers.length === 0) {
+        const from = origin(node, "*")
+        if (from) module.sideEffects.push(from)
+        return true
+      }
+      for (const specifier of specifiers) {
+        const imported =
+          specifier.type === "ImportDefaultSpecifier"
+            ? "default"
+            : specifier.type === "ImportNamespaceSpecifier"
+              ? "*"
+              : nameOf(specifier.imported)
+        const from = origin(node, imported)
+        if (from) module.imports.set(specifier.local.name, from)
+      }
+      return true
+    }
+
+    case "ExportNamedDeclaration": {
+      if (node.declaration) return false
+      remove(module, node.start, node.end)
+      const { source } = node
+      for (const specifier of node.specifiers) {
+        const local = nameOf(specifier.local)
+        const from = source ? origin({ ...node, source }, local) : local
+        if (from) module.exports.set(nameOf(specifier.exported), from)
+      }
+      return true
+    }
+
+    case "ExportAllDeclaration": {
+      remove(module, node.start, node.end)
+      const from = origin(node, "*")
+      if (!from) return true
+      if (node.exported) module.exports.set(nameOf(node.exported), from)
+      else module.stars.push(from)
+      return true
+    }
+
+    default:
+      return false
+  }
+}
+
+/**
+ * Modules bundled from the entry in dependency order,
+ * loading those not loaded yet.
+ *
+ * @param entry absolute path to the entry.
+ * @param modules loaded modules keyed by absolute paths, shared by entries.
+ * @param load load the module of a source file.
+ */
+export function moduleOrder<M extends LinkedModule>(
+  entry: string,
+  modules: Map<string, M>,
+  load: (file: string) => M,
+): M[] {
+  const order: M[] = []
+  const visited = new Set<string>()
+  const visit = (file: string) => {
+    if (visited.has(file)) return
+    visited.add(file)
+    const module = modules.get(file) ?? load(file)
+    modules.set(file, module)
+    for (const dependency of module.dependencies) visit(dependency)
+    order.push(module)
+  }
+  visit(entry)
+  return order
+}
+
+/** Relative specifier of the path from the entry, starting with a dot. */
+export function relativeSpecifier(entry: string, path: string): string {
+  const specifier = relative(dirname(entry), path).replaceAll(sep, "/")
+  return specifier.startsWith(".") ? specifier : `./${specifier}`
+}
+
+/** Specifiers of export statements, such as `a as b`, for the members. */
+export function exportSpecifiers(members: Member[]): string {
+  return members
+    .map(({ name, binding }) =>
+      binding.name === name ? name : `${binding.name} as ${name}`,
+    )
+    .join(", ")
+}
+
+/** Names of a bundle, and how to refer to names of its modules. */
+export type Linker = {
+  /** Name unused by the bundle yet, suffixed with `$1` and so on. */
+  unique(name: string): string
+  /**
+   * Bindings of the top-level names and imports of the module,
+   * reporting names not exported by the modules imported.
+   */
+  scopeOf(module: LinkedModule, diagnostics: Diagnostic[]): Map<string, Binding>
+  /**
+   * Binding of the name from its origin, imported as the preferred name
+   * from packages, or undefined when it's not exported.
+   */
+  resolveOrigin(origin: Origin, preferred: string): Binding | undefined
+  /** Message of a name imported from the origin but not exported. */
+  notExported(origin: Origin): string
+  /** Exported names of the module with their bindings. */
+  exportsOf(module: LinkedModule): Member[]
+  /**
+   * Namespaces of bundled modules referred so far, keyed by their paths,
+   * including those their exported names refer to.
+   */
+  namespaces(): Map<string, { binding: Binding; members: Member[] }>
+  /**
+   * Imports kept at the top, shared by all modules importing the same names,
+   * and star re-exports of the entry from packages.
+   */
+  header(entry: LinkedModule): string[]
+}
+
+/**
+ * Link the modules bundled from an entry into the same scope.
+ *
+ * 1. Top-level names are renamed when colliding with each other,
+ *    or with the reserved names, in the order of the modules.
+ * 2. Imports from packages and local files not bundled are kept,
+ *    relative to the entry, and named when first referred.
+ * 3. Names exported by the stars of bundled modules are exported as well,
+ *    except default ones.
+ *
+ * @param order the modules in dependency order, see {@link moduleOrder}.
+ * @param modules all modules loaded, keyed by absolute paths.
+ * @param options resolved options containing srcdir.
+ * @param reserved names that must not be declared, such as globals.
+ */
+export function linkModules(
+  order: LinkedModule[],
+  modules: ReadonlyMap<string, LinkedModule>,
+  options: PackOptions,
+  reserved: Iterable<string> = [],
+): Linker {
+  const used = new Set(reserved)
+  const unique = (name: string) => {
+    let candidate = name
+    for (let i = 1; used.has(candidate); i++) candidate = `${name}$${i}`
+    used.add(candidate)
+    return candidate
+  }
+  const locals = new Map<string, Map<string, Binding>>()
+  for (const module of order) {
+    const names = [...new Set(module.names)].map((name) => [
+      name,
+      { name: unique(name) },
+    ])
+    locals.set(module.file, new Map(names as [string, Binding][]))
+  }
+
+  // Imports kept at the top keyed by sources then imported names.
+  const externals = new Map<string, Map<string, Binding>>()
+  const attributes = new Map<string, string>()
+  const external = (origin: Origin, preferred: string) => {
+    const names = externals.get(origin.source) || new Map<string, Binding>()
+    externals.set(origin.source, names)
+    attributes.set(origin.source, origin.attributes)
+    if (!names.has(origin.imported)) {
+      names.set(origin.imported, { name: unique(preferred) })
+    }
+    return names.get(origin.imported)!
+  }
+
+  // Namespaces declared for the bundled modules they refer to.
+  const namespaces = new Map<string, Binding>()
+  const namespaceOf = (module: LinkedModule, preferred: string) => {
+    if (!namespaces.has(module.file)) {
+      namespaces.set(module.file, { name: unique(preferred) })
+    }
+    return namespaces.get(module.file)!
+  }
+
+  const resolveOrigin = (
+    origin: Origin,
+    preferred: string,
+    seen = new Set<string>(),
+  ): Binding | undefined => {
+    if (origin.external) return external(origin, preferred)
+    const module = modules.get(origin.source)!
+    if (origin.imported === "*") return namespaceOf(module, preferred)
+    return resolveExport(module, origin.imported, seen)
+  }
+  const resolveExport = (
+    module: LinkedModule,
+    name: string,
+    seen = new Set<string>(),
+  ): Binding | undefined => {
+    const key = `${module.file}\0${name}`
+    if (seen.has(key)) return undefined
+    seen.add(key)
+    const target = module.exports.get(name)
+    if (typeof target === "string") {
+      const local = locals.get(module.file)!.get(target)
+      const imported = module.imports.get(target)
+      return local ?? (imported && resolveOrigin(imported, target, seen))
+    }
+    if (target) return resolveOrigin(target, name, seen)
+    if (name === "default") return undefined
+    for (const star of module.stars) {
+      if (star.external) continue
+      const found = resolveExport(modules.get(star.source)!, name, seen)
+      if (found) return found
+    }
+    return undefined
+  }
+  const exportNames = (
+    module: LinkedModule,
+    seen = new Set<string>(),
+  ): string[] => {
+    if (seen.has(module.file)) return []
+    seen.add(module.file)
+    const stars = module.stars
+      .filter((star) => !star.external)
+      .flatMap((star) => exportNames(modules.get(star.source)!, seen))
+    const names = [...module.exports.keys()]
+    return [...new Set([...names, ...stars.filter((n) => n !== "default")])]
+  }
+  const externalStars = (
+    module: LinkedModule,
+    seen = new Set<string>(),
+  ): string[] => {
+    if (seen.has(module.file)) return []
+    seen.add(module.file)
+    return module.stars.flatMap((star) =>
+      star.external
+        ? [star.source]
+        : externalStars(modules.get(star.source)!, seen),
+    )
+  }
+  const notExported = (origin: Origin) => {
+    const path = relative(resolve(options.srcdir || "src"), origin.source)
+    return `"${origin.imported}" is not exported by ${path}`
+  }
+  const exportsOf = (module: LinkedModule) =>
+    exportNames(module).flatMap((name) => {
+      const binding = resolveExport(module, name)
+      return binding ? [{ name, binding }] : []
+    })
+
+  return {
+    unique,
+    resolveOrigin: (origin, preferred) => resolveOrigin(origin, preferred),
+    notExported,
+    exportsOf,
+
+    scopeOf(module, diagnostics) {
+      const scope = new Map(locals.get(module.file))
+      for (const [local, origin] of module.imports) {
+        const binding = resolveOrigin(origin, local)
+        if (binding) scope.set(local, binding)
+        else report(diagnostics, module, origin.start, notExported(origin))
+      }
+      return scope
+    },
+
+    namespaces() {
+      // Namespaces might refer to more namespaces when resolving their names.
+      const members = new Map<string, Member[]>()
+      while (members.size < namespaces.size) {
+        for (const file of namespaces.keys()) {
+          if (members.has(file)) continue
+          members.set(file, exportsOf(modules.get(file)!))
+        }
+      }
+      return new Map(
+        [...namespaces].map(([file, binding]) => [
+          file,
+          { binding, members: members.get(file)! },
+        ]),
+      )
+    },
+
+    header(entry) {
+      const header: string[] = []
+      const specifierOf = (source: string) =>
+        JSON.stringify(
+          isAbsolute(source) ? relativeSpecifier(entry.file, source) : source,
+        ) + (attributes.get(source) || "")
+      for (const [source, names] of externals) {
+        const from = specifierOf(source)
+        const named: string[] = []
+        for (const [imported, { name }] of names) {
+          if (imported === "*") header.push(`import * as ${name} from ${from};`)
+          else if (imported === "default")
+            header.push(`import ${name} from ${from};`)
+          else named.push(imported === name ? name : `${imported} as ${name}`)
+        }
+        if (named.length > 0) {
+          header.push(`import { ${named.join(", ")} } from ${from};`)
+        }
+      }
+      for (const module of order) {
+        for (const origin of module.sideEffects) {
+          const { source } = origin
+          if (!origin.external || attributes.has(source)) continue
+          attributes.set(source, origin.attributes)
+          header.push(`import ${specifierOf(source)};`)
+        }
+      }
+      for (const source of new Set(externalStars(entry))) {
+        header.push(`export * from ${specifierOf(source)};`)
+      }
+      return header
+    },
+  }
+}
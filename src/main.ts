@@ -1 +1,6 @@
-import("@/index.ts").then(async ({ run }) => await run())
+#!/usr/bin/env node
+import process from "node:process"
+
+import("@/cli.ts").then(async ({ cli }) => {
+  process.exitCode = await cli(process.argv.slice(2))
+})
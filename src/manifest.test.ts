@@ -0,0 +1,55 @@
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest"
+import { loadManifest, removeOrphans, saveManifest } from "./manifest.js"
+
+vi.mock("consola", () => ({
+  default: { success: vi.fn() },
+}))
+
+describe("manifest", () => {
+  let root: string
+  let outdir: string
+  let options: { srcdir: string; outdir: string; cache: string }
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "library-pack-"))
+    outdir = join(root, "out")
+    options = { srcdir: join(root, "src"), outdir, cache: join(root, "cache") }
+    mkdirSync(join(outdir, "lib"), { recursive: true })
+  })
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  test("save and load", () => {
+    expect(loadManifest(options)).toEqual({ outputs: {} })
+    const manifest = { outputs: { "/src/a.ts": ["/out/a.js"] } }
+    saveManifest(options, manifest)
+    expect(loadManifest(options)).toEqual(manifest)
+  })
+
+  test("remove only orphaned outputs", () => {
+    const kept = join(outdir, "a.js")
+    const orphan = join(outdir, "lib", "b.js")
+    const other = join(outdir, "other.txt")
+    for (const file of [kept, orphan, other]) writeFileSync(file, "")
+
+    const previous = {
+      outputs: { "/src/a.ts": [kept], "/src/lib/b.ts": [orphan] },
+    }
+    expect(removeOrphans(previous, new Set([kept]), options)).toEqual([orphan])
+    expect(existsSync(kept)).toBe(true)
+    expect(existsSync(other)).toBe(true)
+    expect(existsSync(join(outdir, "lib"))).toBe(false)
+    expect(existsSync(outdir)).toBe(true)
+  })
+})
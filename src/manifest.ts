@@ -0,0 +1,105 @@
+import { cacheDir } from "@/cache.ts"
+import { PackOptions } from "@/config.ts"
+import { resolveReporter } from "@/reporter.ts"
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmdirSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs"
+import { dirname, join, resolve, sep } from "node:path"
+
+/** Record of the files output by a packing. */
+export type BuildManifest = {
+  /** Absolute paths of outputs keyed by their sources or assets. */
+  outputs: Record<string, string[]>
+}
+
+/**
+ * Path to the build manifest of the packing, inside the cache directory.
+ * Named build targets keep their own manifests, such as manifest.node.json.
+ *
+ * @param options options containing srcdir, cache and name.
+ */
+export function manifestFile(options: PackOptions): string {
+  const name = options.name ? `.${encodeURIComponent(options.name)}` : ""
+  return join(cacheDir(options), `manifest${name}.json`)
+}
+
+/**
+ * Load the build manifest of the previous packing.
+ * Missing or broken manifests are treated as empty.
+ *
+ * @param options options containing srcdir and cache.
+ */
+export function loadManifest(options: PackOptions): BuildManifest {
+  const file = manifestFile(options)
+  if (!existsSync(file)) return { outputs: {} }
+  try {
+    return JSON.parse(readFileSync(file, "utf-8"))
+  } catch {
+    return { outputs: {} }
+  }
+}
+
+/**
+ * Save the build manifest of the current packing.
+ *
+ * @param options options containing srcdir and cache.
+ * @param manifest outputs of the current packing.
+ */
+export function saveManifest(
+  options: PackOptions,
+  manifest: BuildManifest,
+): void {
+  const file = manifestFile(options)
+  mkdirSync(dirname(file), { recursive: true })
+  writeFileSync(file, JSON.stringify(manifest, null, 2) + "\n")
+}
+
+/**
+ * Remove outputs of the previous packing that are not output any more,
+ * such as outputs of removed sources or of changed formats.
+ * Other files inside outdir are kept as is,
+ * and directories inside outdir left empty are also removed.
+ *
+ * @param previous manifest of the previous packing.
+ * @param outputs absolute paths of all outputs of the current packing,
+ *    including those of the other build targets.
+ * @param options options containing outdir and cjsOutdir.
+ * @returns absolute paths of the removed outputs.
+ */
+export function removeOrphans(
+  previous: BuildManifest,
+  outputs: Set<string>,
+  options: PackOptions,
+): string[] {
+  const outdirs = [options.outdir || "out", options.cjsOutdir]
+    .filter((outdir) => outdir !== undefined)
+    .map((outdir) => resolve(outdir))
+
+  const orphans = Object.values(previous.outputs)
+    .flat()
+    .filter((file) => !outputs.has(file) && existsSync(file))
+  for (const file of orphans) {
+    rmSync(file, { force: true })
+    let dir = dirname(file)
+    while (
+      outdirs.some((outdir) => dir.startsWith(outdir + sep)) &&
+      readdirSync(dir).length === 0
+    ) {
+      rmdirSync(dir)
+      dir = dirname(dir)
+    }
+  }
+  if (orphans.length > 0) {
+    resolveReporter(options.reporter).message?.({
+      level: "success",
+      message: `Removed ${orphans.length} outputs of the previous build`,
+    })
+  }
+  return orphans
+}
@@ -0,0 +1,223 @@
+import {
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest"
+import {
+  findPackageJson,
+  generateExports,
+  packageDefines,
+  packageJson,
+  prepareBins,
+  updateExports,
+  validatePackageJson,
+  writePackageJson,
+} from "./package.js"
+
+vi.mock("consola", () => ({
+  default: { success: vi.fn() },
+}))
+
+let root: string
+let srcdir: string
+let outdir: string
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), "library-pack-"))
+  srcdir = join(root, "src")
+  outdir = join(root, "out")
+  mkdirSync(srcdir, { recursive: true })
+})
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true })
+})
+
+function writeManifest(manifest: object): string {
+  const file = join(root, "package.json")
+  writeFileSync(file, JSON.stringify(manifest, null, 2) + "\n")
+  return file
+}
+
+function validate(manifest: object, emitted: string[]) {
+  const file = writeManifest(manifest)
+  const code = readFileSync(file, "utf-8")
+  const files = new Set(emitted.map((name) => join(outdir, name)))
+  return validatePackageJson(file, code, files, [outdir])
+}
+
+test("find package.json upward", () => {
+  const file = writeManifest({})
+  expect(findPackageJson(srcdir)).toBe(file)
+})
+
+test("define the version of package.json", () => {
+  writeManifest({ version: "1.2.3" })
+  expect(packageDefines(srcdir)).toEqual({ __VERSION__: '"1.2.3"' })
+  writeManifest({})
+  expect(packageDefines(srcdir)).toEqual({})
+})
+
+test("make bin targets executable", () => {
+  mkdirSync(outdir)
+  const cli = join(outdir, "cli.js")
+  const tool = join(outdir, "tool.js")
+  writeFileSync(cli, "#!/usr/bin/env node\n", { mode: 0o644 })
+  writeFileSync(tool, "export {}\n", { mode: 0o644 })
+  const file = writeManifest({
+    bin: { cli: "./out/cli.js", tool: "./out/tool.js" },
+  })
+  const diagnostics = prepareBins(
+    file,
+    readFileSync(file, "utf-8"),
+    new Set([cli, tool]),
+  )
+  expect(statSync(cli).mode & 0o111).toBe(0o111)
+  expect(diagnostics.map((d) => d.message)).toEqual([
+    "Missing shebang in target of bin.tool: ./out/tool.js",
+  ])
+})
+
+test("make bin targets executable without validating", () => {
+  mkdirSync(outdir)
+  const cli = join(outdir, "cli.js")
+  writeFileSync(cli, "#!/usr/bin/env node\n", { mode: 0o644 })
+  writeManifest({ main: "./out/missing.js", bin: "./out/cli.js" })
+  const options = { srcdir, outdir, packageJson: false as const }
+  expect(packageJson([options], new Set([cli]))).toEqual([])
+  expect(writePackageJson([options], new Set([cli]))).toEqual([])
+  expect(statSync(cli).mode & 0o111).toBe(0o111)
+})
+
+describe("validate", () => {
+  test("emitted targets", () => {
+    const manifest = {
+      main: "./out/index.js",
+      types: "./out/index.d.ts",
+      bin: { pack: "out/main.js" },
+      exports: {
+        ".": { types: "./out/index.d.ts", default: "./out/index.js" },
+        "./utils/*": "./out/utils/*.js",
+        "./internal/*": null,
+      },
+    }
+    const emitted = ["index.js", "index.d.ts", "main.js", "utils/a.js"]
+    expect(validate(manifest, emitted)).toEqual([])
+  })
+
+  test("missing targets", () => {
+    const manifest = {
+      main: "./out/index.js",
+      exports: { ".": "./out/index.js", "./utils/*": "./out/utils/*.js" },
+    }
+    const diagnostics = validate(manifest, [])
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      "Missing target of main: ./out/index.js",
+      `Missing target of exports["."]: ./out/index.js`,
+      `No file matches exports["./utils/*"]: ./out/utils/*.js`,
+    ])
+    expect(diagnostics[0]).toMatchObject({ line: 2, severity: "warning" })
+  })
+
+  test("targets outside outdir exist on disk", () => {
+    writeFileSync(join(root, "tsconfig.json"), "{}")
+    const manifest = {
+      exports: { "./tsconfig.json": "./tsconfig.json", "./x": "./x.json" },
+    }
+    const diagnostics = validate(manifest, [])
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      `Missing target of exports["./x"]: ./x.json`,
+    ])
+  })
+
+  test("condition ordering", () => {
+    const manifest = {
+      exports: {
+        import: "./out/index.js",
+        types: "./out/index.d.ts",
+        default: "./out/index.js",
+        require: "./out/index.cjs",
+      },
+    }
+    const emitted = ["index.js", "index.d.ts", "index.cjs"]
+    expect(validate(manifest, emitted).map((d) => d.message)).toEqual([
+      `The "types" condition of exports must come first`,
+      `The "default" condition of exports must come last`,
+    ])
+  })
+
+  test("missing types condition", () => {
+    const manifest = { exports: { ".": { import: "./out/index.js" } } }
+    const [diagnostic] = validate(manifest, ["index.js", "index.d.ts"])
+    expect(diagnostic).toMatchObject({
+      severity: "warning",
+      message: `Missing "types" condition of exports["."]`,
+    })
+    expect(validate(manifest, ["index.js"])).toEqual([])
+  })
+})
+
+describe("generate", () => {
+  test("exports in a single format", () => {
+    const file = writeManifest({})
+    const options = { srcdir, outdir, entries: { ".": "index.ts" } }
+    expect(generateExports(file, options)).toEqual({
+      ".": { types: "./out/index.d.ts", default: "./out/index.js" },
+    })
+  })
+
+  test("exports in both formats", () => {
+    const file = writeManifest({})
+    const options = {
+      srcdir,
+      outdir,
+      formats: ["esm" as const, "cjs" as const],
+      cjsOutdir: join(root, "cjs"),
+      entries: { "./utils": "utils.ts" },
+    }
+    expect(generateExports(file, options)).toEqual({
+      "./utils": {
+        import: { types: "./out/utils.d.ts", default: "./out/utils.js" },
+        require: { types: "./cjs/utils.d.cts", default: "./cjs/utils.cjs" },
+      },
+    })
+  })
+
+  test("keep other subpaths and indentation", () => {
+    const file = join(root, "package.json")
+    const code = `{\n\t"exports": "./main.js"\n}\n`
+    const options = { srcdir, outdir, entries: { "./a": "a.ts" } }
+    expect(JSON.parse(updateExports(file, code, options))).toEqual({
+      exports: {
+        ".": "./main.js",
+        "./a": { types: "./out/a.d.ts", default: "./out/a.js" },
+      },
+    })
+    expect(updateExports(file, code, options)).toContain(`\n\t"exports"`)
+  })
+
+  test("write only after validating", () => {
+    const file = writeManifest({ name: "a" })
+    const options = {
+      srcdir,
+      outdir,
+      packageJson: "generate" as const,
+      entries: { ".": "index.ts" },
+    }
+    const emitted = new Set([join(outdir, "index.js")])
+    const diagnostics = packageJson([options], emitted)
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      `Missing target of exports["."].types: ./out/index.d.ts`,
+    ])
+    expect(JSON.parse(readFileSync(file, "utf-8"))).toEqual({ name: "a" })
+
+    writePackageJson([options], emitted)
+    expect(JSON.parse(readFileSync(file, "utf-8")).exports).toBeDefined()
+  })
+})
@@ -0,0 +1,335 @@
+import { PackOptions } from "@/config.ts"
+import { createDiagnostic, Diagnostic } from "@/diagnostics.ts"
+import { outputTargets } from "@/index.ts"
+import { resolveReporter } from "@/reporter.ts"
+import { globSync } from "glob"
+import {
+  chmodSync,
+  existsSync,
+  readFileSync,
+  statSync,
+  writeFileSync,
+} from "node:fs"
+import { dirname, join, relative, resolve, sep } from "node:path"
+
+/** Targets of package.json exports, possibly nested in conditions. */
+export type ExportsTarget =
+  | string
+  | null
+  | ExportsTarget[]
+  | { [key: string]: ExportsTarget }
+
+/**
+ * Find the nearest package.json from the directory upward.
+ *
+ * @param dir directory to start searching from.
+ * @returns absolute path to the package.json, or undefined if not found.
+ */
+export function findPackageJson(dir: string): string | undefined {
+  let current = resolve(dir)
+  while (true) {
+    const file = join(current, "package.json")
+    if (existsSync(file) && statSync(file).isFile()) return file
+    const parent = dirname(current)
+    if (parent === current) return undefined
+    current = parent
+  }
+}
+
+/**
+ * Defines populated from the nearest package.json from the directory upward,
+ * such as __VERSION__ replaced with its version as a string literal.
+ * Missing or broken package.json files define nothing.
+ *
+ * @param dir directory to start searching from.
+ */
+export function packageDefines(dir: string): Record<string, string> {
+  const file = findPackageJson(dir)
+  if (!file) return {}
+  try {
+    const { version } = JSON.parse(readFileSync(file, "utf-8"))
+    return typeof version === "string"
+      ? { __VERSION__: JSON.stringify(version) }
+      : {}
+  } catch {
+    return {}
+  }
+}
+
+/** Targets of bin in the package.json keyed by their fields. */
+function binTargets(manifest: { bin?: unknown }): [string, string][] {
+  const { bin } = manifest
+  if (typeof bin === "string") return [["bin", bin]]
+  if (!bin || typeof bin !== "object") return []
+  return Object.entries(bin)
+    .filter(([, target]) => typeof target === "string")
+    .map(([name, target]) => [`bin.${name}`, target])
+}
+
+/**
+ * Make the emitted targets of bin in the package.json executable,
+ * and warn about those without a shebang.
+ *
+ * @param file path to the package.json.
+ * @param code content of the package.json.
+ * @param emitted absolute paths of all emitted files.
+ */
+export function prepareBins(
+  file: string,
+  code: string,
+  emitted: Set<string>,
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = []
+  for (const [field, target] of binTargets(JSON.parse(code))) {
+    const path = resolve(dirname(file), target)
+    if (!emitted.has(path) || !existsSync(path)) continue
+    chmodSync(path, statSync(path).mode | 0o111)
+    if (readFileSync(path, "utf-8").startsWith("#!")) continue
+    const offset = Math.max(0, code.indexOf(JSON.stringify(target)))
+    const message = `Missing shebang in target of ${field}: ${target}`
+    diagnostics.push(createDiagnostic(file, code, offset, message, "warning"))
+  }
+  return diagnostics
+}
+
+/** Convert an absolute path into a "./" prefixed one relative to root. */
+function toTarget(root: string, file: string): string {
+  return `./${relative(root, file).replaceAll(sep, "/")}`
+}
+
+/**
+ * Generate exports of package.json from the entries.
+ *
+ * 1. Each entry exports its outputs in all formats,
+ *    "import" for ES modules and "require" for CommonJS.
+ * 2. Declarations come first as the "types" condition of each format.
+ * 3. A single format uses "types" and "default" conditions directly.
+ *
+ * @param file path to the package.json.
+ * @param options options containing srcdir, outdir, formats and entries.
+ */
+export function generateExports(
+  file: string,
+  options: PackOptions,
+): Record<string, ExportsTarget> {
+  const root = dirname(file)
+  const srcdir = resolve(options.srcdir || "src")
+  const exports: Record<string, ExportsTarget> = {}
+  for (const [subpath, entry] of Object.entries(options.entries || {})) {
+    const targets = outputTargets(resolve(srcdir, entry), options).map(
+      ({ format, js, dts }) => ({
+        condition: format === "cjs" ? "require" : "import",
+        conditions: { types: toTarget(root, dts), default: toTarget(root, js) },
+      }),
+    )
+    exports[subpath] =
+      targets.length === 1
+        ? targets[0].conditions
+        : Object.fromEntries(targets.map((t) => [t.condition, t.conditions]))
+  }
+  return exports
+}
+
+/**
+ * Update exports of the package.json code with ones generated from entries,
+ * existing subpaths not in entries are kept as is.
+ *
+ * @param file path to the package.json.
+ * @param code content of the package.json.
+ * @param options options containing srcdir, outdir, formats and entries.
+ * @returns updated content, keeping the indentation of the original.
+ */
+export function updateExports(
+  file: string,
+  code: string,
+  options: PackOptions,
+): string {
+  const manifest = JSON.parse(code)
+  const current = manifest.exports
+  const subpaths =
+    typeof current === "string" || Array.isArray(current)
+      ? { ".": current }
+      : current && !Object.keys(current)[0]?.startsWith(".")
+        ? { ".": current }
+        : current
+  manifest.exports = { ...subpaths, ...generateExports(file, options) }
+  const indent = code.match(/^[ \t]+/m)?.[0] || "  "
+  return JSON.stringify(manifest, null, indent) + "\n"
+}
+
+/**
+ * Validate that entries of the package.json refer to emitted files.
+ * Problems are reported as warnings, see the warningsAsErrors option.
+ *
+ * 1. Targets of main, module, types, typings, bin and exports must exist.
+ *    Targets inside outdir must be emitted by this packing,
+ *    and subpath patterns must match at least one file.
+ * 2. The "types" condition must come first,
+ *    and the "default" condition must come last.
+ * 3. Conditions of js targets without "types"
+ *    are reported when their declarations are emitted.
+ *
+ * @param file path to the package.json.
+ * @param code content of the package.json.
+ * @param emitted absolute paths of all emitted files.
+ * @param outdirs output directories, files inside must be emitted.
+ */
+export function validatePackageJson(
+  file: string,
+  code: string,
+  emitted: Set<string>,
+  outdirs: string[],
+): Diagnostic[] {
+  const root = dirname(file)
+  const manifest = JSON.parse(code)
+  const diagnostics: Diagnostic[] = []
+
+  const report = (target: string, message: string) => {
+    const offset = Math.max(0, code.indexOf(JSON.stringify(target)))
+    diagnostics.push(createDiagnostic(file, code, offset, message, "warning"))
+  }
+
+  const isOutput = (path: string) =>
+    outdirs.some((outdir) => path.startsWith(outdir + sep))
+  const exists = (path: string) =>
+    isOutput(path) ? emitted.has(path) : existsSync(path)
+
+  const checkTarget = (field: string, target: string) => {
+    const path = resolve(root, target)
+    if (!target.includes("*")) {
+      if (!exists(path)) report(target, `Missing target of ${field}: ${target}`)
+      return
+    }
+    const pattern = new RegExp(
+      "^" +
+        path
+          .split("*")
+          .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+          .join(".+") +
+        "$",
+    )
+    const matched = isOutput(path)
+      ? [...emitted].some((file) => pattern.test(file))
+      : globSync(target.replaceAll("*", "**/*"), { cwd: root }).length > 0
+    if (!matched) report(target, `No file matches ${field}: ${target}`)
+  }
+
+  const declarationOf = (target: string) =>
+    resolve(root, target).replace(/\.([cm]?)js$/, ".d.$1ts")
+
+  const checkExports = (field: string, target: ExportsTarget) => {
+    if (target === null) return
+    if (typeof target === "string") return checkTarget(field, target)
+    if (Array.isArray(target)) {
+      for (const item of target) checkExports(field, item)
+      return
+    }
+
+    const keys = Object.keys(target)
+    if (keys[0]?.startsWith(".")) {
+      for (const key of keys) checkExports(`exports["${key}"]`, target[key])
+      return
+    }
+
+    const types = keys.indexOf("types")
+    if (types > 0) {
+      const message = `The "types" condition of ${field} must come first`
+      report(keys[0], message)
+    }
+    const defaults = keys.indexOf("default")
+    if (defaults >= 0 && defaults < keys.length - 1) {
+      const message = `The "default" condition of ${field} must come last`
+      report(keys[keys.length - 1], message)
+    }
+    if (types < 0) {
+      const js = keys
+        .map((key) => target[key])
+        .find((value) => typeof value === "string" && /\.[cm]?js$/.test(value))
+      if (typeof js === "string" && emitted.has(declarationOf(js))) {
+        const message = `Missing "types" condition of ${field}`
+        report(js, message)
+      }
+    }
+    for (const key of keys) checkExports(`${field}.${key}`, target[key])
+  }
+
+  for (const field of ["main", "module", "types", "typings"]) {
+    const target = manifest[field]
+    if (typeof target === "string") checkTarget(field, target)
+  }
+  for (const [field, target] of binTargets(manifest)) {
+    checkTarget(field, target)
+  }
+  if (manifest.exports !== undefined) checkExports("exports", manifest.exports)
+  return diagnostics
+}
+
+/**
+ * The package.json nearest to srcdir, regardless of the packageJson option,
+ * with its exports generated in memory when set to "generate".
+ */
+function loadPackageJson(
+  targets: PackOptions[],
+): { file: string; code: string; updated: string } | undefined {
+  const [options] = targets
+  if (!options) return undefined
+  const file = findPackageJson(options.srcdir || "src")
+  if (!file) return undefined
+  const code = readFileSync(file, "utf-8")
+  let updated = code
+  if (options.packageJson === "generate") {
+    for (const target of targets) updated = updateExports(file, updated, target)
+  }
+  return { file, code, updated }
+}
+
+/**
+ * Validate the package.json nearest to srcdir against the files to emit,
+ * according to the packageJson option, without writing anything.
+ * Exports are generated in memory first when set to "generate".
+ * With multiple build targets, the package.json of the first one
+ * is validated against the outputs of all of them,
+ * and exports are generated from entries of each target in order.
+ *
+ * @param targets resolved options of all build targets of the packing.
+ * @param emitted absolute paths of all files to emit.
+ */
+export function packageJson(
+  targets: PackOptions[],
+  emitted: Set<string>,
+): Diagnostic[] {
+  if (targets[0]?.packageJson === false) return []
+  const loaded = loadPackageJson(targets)
+  if (!loaded) return []
+  const outdirs = targets
+    .flatMap((target) => [target.outdir, target.cjsOutdir])
+    .filter((outdir) => outdir !== undefined)
+    .map((outdir) => resolve(outdir))
+  return validatePackageJson(loaded.file, loaded.updated, emitted, outdirs)
+}
+
+/**
+ * Write the exports generated into the package.json nearest to srcdir
+ * when the packageJson option is "generate", see {@link packageJson},
+ * and make the emitted targets of its bin executable in any case,
+ * see {@link prepareBins}.
+ *
+ * @param targets resolved options of all build targets of the packing.
+ * @param emitted absolute paths of all emitted files.
+ */
+export function writePackageJson(
+  targets: PackOptions[],
+  emitted: Set<string>,
+): Diagnostic[] {
+  const loaded = loadPackageJson(targets)
+  if (!loaded) return []
+  const { file, code, updated } = loaded
+  if (updated !== code) {
+    writeFileSync(file, updated)
+    resolveReporter(targets[0].reporter).message?.({
+      level: "success",
+      message: `Generated exports of ${file}`,
+    })
+  }
+  return prepareBins(file, updated, emitted)
+}
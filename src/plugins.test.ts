@@ -0,0 +1,79 @@
+import { describe, expect, test, vi } from "vitest"
+import {
+  applyAfterTransform,
+  applyBeforeTransform,
+  applyBuildEnd,
+  applyEmitFile,
+  applyResolveOptions,
+  definePlugin,
+  PluginError,
+  transformsOutputs,
+} from "./plugins.js"
+
+describe("plugins", () => {
+  const context = { file: "/project/src/a.ts", options: {} }
+
+  test("apply hooks in order", async () => {
+    const first = definePlugin({
+      name: "first",
+      beforeTransform: (code) => `${code}1`,
+    })
+    const second = definePlugin({
+      name: "second",
+      beforeTransform: async (code) => `${code}2`,
+    })
+    const skipped = definePlugin({ name: "skipped", beforeTransform() {} })
+    const options = { plugins: [first, skipped, second] }
+    expect(await applyBeforeTransform("0", { ...context, options })).toBe("012")
+  })
+
+  test("resolve options", () => {
+    const plugin = definePlugin({
+      name: "outdir",
+      resolveOptions: (options) => ({ ...options, outdir: "dist" }),
+    })
+    const options = applyResolveOptions({ outdir: "out", plugins: [plugin] })
+    expect(options.outdir).toBe("dist")
+  })
+
+  test("wrap errors with the plugin and the hook", async () => {
+    const plugin = definePlugin({
+      name: "broken",
+      afterTransform() {
+        throw new Error("Unexpected output")
+      },
+    })
+    const options = { plugins: [plugin] }
+    const result = applyAfterTransform({}, { ...context, options })
+    await expect(result).rejects.toThrow(PluginError)
+    await expect(result).rejects.toThrow(
+      'Plugin "broken" failed in afterTransform: Unexpected output',
+    )
+  })
+
+  test("resolve emitted files against outdir", async () => {
+    const plugin = definePlugin({
+      name: "license",
+      emitFile: () => ({ "LICENSE.txt": "MIT" }),
+    })
+    const options = { outdir: "/project/out", plugins: [plugin] }
+    expect(await applyEmitFile({ options, outputs: [] })).toEqual({
+      "/project/out/LICENSE.txt": "MIT",
+    })
+  })
+
+  test("call buildEnd once for plugins shared by targets", async () => {
+    const plugin = definePlugin({ name: "shared", buildEnd: vi.fn() })
+    const targets = [{ plugins: [plugin] }, { plugins: [plugin] }]
+    await applyBuildEnd(targets, { error: new Error("Build failed") })
+    expect(plugin.buildEnd).toHaveBeenCalledTimes(1)
+  })
+
+  test("only transforming plugins disable the cache", () => {
+    const emitting = definePlugin({ name: "emit", emitFile: () => ({}) })
+    const transforming = definePlugin({ name: "t", afterTransform() {} })
+    expect(transformsOutputs({ plugins: [emitting] })).toBe(false)
+    expect(transformsOutputs({ plugins: [emitting, transforming] })).toBe(true)
+    expect(transformsOutputs({ plugins: { styledComponents: {} } })).toBe(false)
+  })
+})
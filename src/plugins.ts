@@ -0,0 +1,205 @@
+import { FileOptions, PackOptions } from "@/config.ts"
+import { PackResult } from "@/index.ts"
+import { resolve } from "node:path"
+
+/** Context of a source file passed to the transform hooks. */
+export type TransformContext = {
+  /** Absolute path to the source file. */
+  file: string
+  options: FileOptions
+}
+
+/** Context of a build target passed to the emitFile hook. */
+export type EmitContext = {
+  /** Resolved options of the build target. */
+  options: PackOptions
+  /** Absolute paths to all outputs of the build target. */
+  outputs: string[]
+}
+
+/** Hook results may be returned synchronously or as promises. */
+type MaybePromise<T> = T | Promise<T>
+
+/**
+ * Plugin of the packing with hooks into the pipeline, all optional.
+ *
+ * 1. resolveOptions modifies options after defaults are resolved.
+ * 2. beforeTransform modifies the source code before transforming.
+ * 3. afterTransform modifies outputs of a source file,
+ *    including js, declarations and maps keyed by their absolute paths.
+ * 4. emitFile returns extra outputs of each build target,
+ *    keyed by paths relative to outdir.
+ * 5. buildEnd receives either the result or the error of the packing.
+ *
+ * Hooks returning nothing keep the value as is.
+ */
+export type PackPlugin = {
+  /** Name of the plugin, used in error messages. */
+  name: string
+  resolveOptions?(options: PackOptions): PackOptions | void
+  beforeTransform?(
+    code: string,
+    context: TransformContext,
+  ): MaybePromise<string | void>
+  afterTransform?(
+    outputs: Record<string, string>,
+    context: TransformContext,
+  ): MaybePromise<Record<string, string> | void>
+  emitFile?(context: EmitContext): MaybePromise<Record<string, string> | void>
+  buildEnd?(event: { result?: PackResult; error?: unknown }): MaybePromise<void>
+}
+
+/** Error thrown when a hook of a plugin fails. */
+export class PluginError extends Error {
+  readonly plugin: string
+  readonly hook: string
+
+  constructor(plugin: string, hook: string, cause: unknown) {
+    const message = cause instanceof Error ? cause.message : String(cause)
+    super(`Plugin "${plugin}" failed in ${hook}: ${message}`, { cause })
+    this.name = "PluginError"
+    this.plugin = plugin
+    this.hook = hook
+  }
+}
+
+/**
+ * Helper to define a plugin with type checking, returned unchanged.
+ *
+ * @param plugin the plugin to define.
+ */
+export function definePlugin(plugin: PackPlugin): PackPlugin {
+  return plugin
+}
+
+/**
+ * Plugins of the packing from the options.
+ * The plugins option of oxc-transform as an object is not included.
+ *
+ * @param options options containing the plugins.
+ */
+export function packPlugins(options: FileOptions): PackPlugin[] {
+  return Array.isArray(options.plugins) ? options.plugins : []
+}
+
+/**
+ * Whether any plugin modifies the sources or their outputs,
+ * so that outputs can't be reused from the build cache.
+ *
+ * @param options options containing the plugins.
+ */
+export function transformsOutputs(options: FileOptions): boolean {
+  return packPlugins(options).some(
+    (plugin) => plugin.beforeTransform || plugin.afterTransform,
+  )
+}
+
+/** Call the hook of the plugin, wrapping errors with its name. */
+async function callHook<T>(
+  plugin: PackPlugin,
+  hook: string,
+  call: () => MaybePromise<T>,
+): Promise<T> {
+  try {
+    return await call()
+  } catch (error) {
+    throw new PluginError(plugin.name, hook, error)
+  }
+}
+
+/**
+ * Apply resolveOptions hooks of plugins in order.
+ *
+ * @param options options with defaults resolved.
+ */
+export function applyResolveOptions(options: PackOptions): PackOptions {
+  for (const plugin of packPlugins(options)) {
+    if (!plugin.resolveOptions) continue
+    try {
+      options = plugin.resolveOptions(options) || options
+    } catch (error) {
+      throw new PluginError(plugin.name, "resolveOptions", error)
+    }
+  }
+  return options
+}
+
+/**
+ * Apply beforeTransform hooks of plugins in order.
+ *
+ * @param code the source code.
+ * @param context the source file and its options.
+ */
+export async function applyBeforeTransform(
+  code: string,
+  context: TransformContext,
+): Promise<string> {
+  for (const plugin of packPlugins(context.options)) {
+    if (!plugin.beforeTransform) continue
+    const hook = plugin.beforeTransform.bind(plugin)
+    code =
+      (await callHook(plugin, "beforeTransform", () => hook(code, context))) ||
+      code
+  }
+  return code
+}
+
+/**
+ * Apply afterTransform hooks of plugins in order.
+ *
+ * @param outputs contents of outputs keyed by their absolute paths.
+ * @param context the source file and its options.
+ */
+export async function applyAfterTransform(
+  outputs: Record<string, string>,
+  context: TransformContext,
+): Promise<Record<string, string>> {
+  for (const plugin of packPlugins(context.options)) {
+    if (!plugin.afterTransform) continue
+    const hook = plugin.afterTransform.bind(plugin)
+    outputs =
+      (await callHook(plugin, "afterTransform", () =>
+        hook(outputs, context),
+      )) || outputs
+  }
+  return outputs
+}
+
+/**
+ * Collect extra outputs of a build target from emitFile hooks.
+ *
+ * @param context the build target and its outputs.
+ * @returns contents of extra outputs keyed by their absolute paths.
+ */
+export async function applyEmitFile(
+  context: EmitContext,
+): Promise<Record<string, string>> {
+  const files: Record<string, string> = {}
+  for (const plugin of packPlugins(context.options)) {
+    if (!plugin.emitFile) continue
+    const hook = plugin.emitFile.bind(plugin)
+    const emitted = await callHook(plugin, "emitFile", () => hook(context))
+    for (const [path, data] of Object.entries(emitted || {})) {
+      files[resolve(context.options.outdir || "out", path)] = data
+    }
+  }
+  return files
+}
+
+/**
+ * Call buildEnd hooks of all plugins of the build targets,
+ * each plugin only once even if shared by targets.
+ *
+ * @param targets resolved options of all build targets.
+ * @param event either the result or the error of the packing.
+ */
+export async function applyBuildEnd(
+  targets: PackOptions[],
+  event: { result?: PackResult; error?: unknown },
+): Promise<void> {
+  for (const plugin of new Set(targets.flatMap(packPlugins))) {
+    if (!plugin.buildEnd) continue
+    const hook = plugin.buildEnd.bind(plugin)
+    await callHook(plugin, "buildEnd", () => hook(event))
+  }
+}
@@ -0,0 +1,76 @@
+import consola from "consola"
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest"
+import { reporters, resolveReporter } from "./reporter.js"
+
+vi.mock("consola", () => ({
+  default: {
+    log: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    success: vi.fn(),
+  },
+}))
+
+describe("reporters", () => {
+  const event = { file: "/src/a.ts", outputs: ["/out/a.js", "/out/a.d.ts"] }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  test("resolve built-in and custom reporters", () => {
+    const custom = { fileTransformed: vi.fn() }
+    expect(resolveReporter()).toBe(reporters.default)
+    expect(resolveReporter("silent")).toBe(reporters.silent)
+    expect(resolveReporter(custom)).toBe(custom)
+  })
+
+  test("default logs each file", () => {
+    reporters.default.fileTransformed!(event)
+    reporters.default.fileTransformed!({ file: "/src/b.d.ts", outputs: [] })
+    reporters.default.fileCached!(event)
+    expect(vi.mocked(consola.success).mock.calls).toEqual([
+      ["Transformed /src/a.ts"],
+      ["Copied declaration /src/b.d.ts"],
+      ["Reused cached outputs of /src/a.ts"],
+    ])
+    expect(consola.log).not.toHaveBeenCalled()
+  })
+
+  test("verbose lists outputs and the duration", () => {
+    reporters.verbose.fileTransformed!(event)
+    expect(consola.log).toHaveBeenCalledTimes(2)
+    reporters.verbose.buildEnd!({
+      result: {
+        targets: [
+          {
+            options: {},
+            sources: [{ source: "/src/a.ts", outputs: [], cached: true }],
+            assets: [],
+            extras: [],
+          },
+        ],
+        diagnostics: [],
+        duration: 12,
+      },
+    })
+    expect(consola.success).toHaveBeenLastCalledWith(
+      "Packed 1 sources (1 cached) in 12ms",
+    )
+  })
+
+  test("json prints events as lines", () => {
+    const write = vi.spyOn(process.stdout, "write").mockReturnValue(true)
+    reporters.json.fileCached!(event)
+    reporters.json.buildEnd!({ error: new Error("Build failed") })
+    expect(write.mock.calls.map(([line]) => JSON.parse(String(line)))).toEqual([
+      { event: "fileCached", ...event },
+      { event: "buildEnd", error: "Build failed" },
+    ])
+  })
+})
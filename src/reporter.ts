@@ -0,0 +1,150 @@
+import { PackOptions } from "@/config.ts"
+import { Diagnostic, reportDiagnostics } from "@/diagnostics.ts"
+import { isDeclaration } from "@/extensions.ts"
+import { PackResult } from "@/index.ts"
+import consola from "consola"
+import { relative } from "node:path"
+import process from "node:process"
+
+/** A file handled by the packing, and its outputs. */
+export type FileEvent = {
+  /** Absolute path to the source file or asset. */
+  file: string
+  /** Absolute paths to the written outputs. */
+  outputs: string[]
+}
+
+/** Other progress of the packing, such as removing orphaned outputs. */
+export type MessageEvent = {
+  level: "info" | "success" | "warn" | "error"
+  message: string
+}
+
+/**
+ * Handlers of lifecycle events of the packing, all optional.
+ *
+ * 1. buildStart and buildEnd surround each {@link pack},
+ *    buildEnd receives either the result or the error.
+ * 2. fileTransformed, fileCached and fileCopied follow writing outputs
+ *    of a transformed source, of a cached one, and of an asset.
+ * 3. diagnostic receives each diagnostic when reported.
+ * 4. message receives other progress, such as removed outputs.
+ */
+export type Reporter = {
+  buildStart?(event: { targets: PackOptions[] }): void
+  fileTransformed?(event: FileEvent): void
+  fileCached?(event: FileEvent): void
+  fileCopied?(event: FileEvent): void
+  diagnostic?(diagnostic: Diagnostic): void
+  buildEnd?(event: { result?: PackResult; error?: unknown }): void
+  message?(event: MessageEvent): void
+}
+
+/** Names of the built-in reporters, see {@link reporters}. */
+export type ReporterName = "default" | "silent" | "verbose" | "json"
+
+/** Logs of each file and diagnostic with consola. */
+const defaultReporter: Reporter = {
+  fileTransformed({ file }) {
+    if (isDeclaration(file)) consola.success(`Copied declaration ${file}`)
+    else consola.success(`Transformed ${file}`)
+  },
+  fileCached({ file }) {
+    consola.success(`Reused cached outputs of ${file}`)
+  },
+  fileCopied({ file }) {
+    consola.success(`Copied ${file}`)
+  },
+  diagnostic(diagnostic) {
+    reportDiagnostics([diagnostic])
+  },
+  message({ level, message }) {
+    consola[level](message)
+  },
+}
+
+/** List outputs of the file relative to the cwd. */
+function listOutputs({ outputs }: FileEvent): void {
+  for (const output of outputs) consola.log(`  ${relative(".", output)}`)
+}
+
+/** Logs of the default reporter, with targets, outputs and the duration. */
+const verboseReporter: Reporter = {
+  ...defaultReporter,
+  buildStart({ targets }) {
+    for (const { name, srcdir, outdir } of targets) {
+      const target = name ? ` (${name})` : ""
+      consola.info(`Packing ${srcdir} into ${outdir}${target}`)
+    }
+  },
+  fileTransformed(event) {
+    defaultReporter.fileTransformed!(event)
+    listOutputs(event)
+  },
+  fileCached(event) {
+    defaultReporter.fileCached!(event)
+    listOutputs(event)
+  },
+  fileCopied(event) {
+    defaultReporter.fileCopied!(event)
+    listOutputs(event)
+  },
+  buildEnd({ result, error }) {
+    if (!result) {
+      consola.error(`Packing failed: ${(error as Error)?.message ?? error}`)
+      return
+    }
+    const sources = result.targets.flatMap((target) => target.sources)
+    const cached = sources.filter((source) => source.cached).length
+    consola.success(
+      `Packed ${sources.length} sources (${cached} cached) ` +
+        `in ${result.duration}ms`,
+    )
+  },
+}
+
+/** Print the event as a line of JSON to stdout. */
+function printEvent(event: string, payload: object): void {
+  process.stdout.write(JSON.stringify({ event, ...payload }) + "\n")
+}
+
+/** Events as lines of JSON on stdout, for other tools to consume. */
+const jsonReporter: Reporter = {
+  buildStart: (event) => printEvent("buildStart", event),
+  fileTransformed: (event) => printEvent("fileTransformed", event),
+  fileCached: (event) => printEvent("fileCached", event),
+  fileCopied: (event) => printEvent("fileCopied", event),
+  diagnostic: (diagnostic) => printEvent("diagnostic", diagnostic),
+  buildEnd: ({ result, error }) =>
+    printEvent("buildEnd", {
+      result,
+      error: error instanceof Error ? error.message : error,
+    }),
+  message: (event) => printEvent("message", event),
+}
+
+/**
+ * Built-in reporters.
+ *
+ * 1. "default" logs each file, diagnostic and message with consola.
+ * 2. "silent" reports nothing, failures are still thrown.
+ * 3. "verbose" also logs targets, outputs of each file and the duration.
+ * 4. "json" prints each event as a line of JSON to stdout.
+ */
+export const reporters: Record<ReporterName, Reporter> = {
+  default: defaultReporter,
+  silent: {},
+  verbose: verboseReporter,
+  json: jsonReporter,
+}
+
+/**
+ * Resolve the reporter option into event handlers.
+ *
+ * @param reporter name of a built-in reporter, or custom handlers,
+ *   default to the "default" reporter.
+ */
+export function resolveReporter(reporter?: ReporterName | Reporter): Reporter {
+  if (reporter === undefined) return reporters.default
+  return typeof reporter === "string" ? reporters[reporter] : reporter
+}
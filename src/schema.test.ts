@@ -0,0 +1,69 @@
+import { readFileSync } from "node:fs"
+import { describe, expect, test } from "vitest"
+import { jsonSchema, suggest, validateOptions } from "./schema.js"
+
+describe("validateOptions", () => {
+  test("valid options", () => {
+    expect(
+      validateOptions({
+        srcdir: "lib",
+        formats: ["esm", "cjs"],
+        tsconfig: false,
+        typescript: { declaration: { stripInternal: true } },
+        jsx: "preserve",
+        define: { __DEV__: "false" },
+      }),
+    ).toEqual([])
+  })
+
+  test("nested keys and wrong types", () => {
+    expect(
+      validateOptions({
+        formats: ["umd"],
+        typescript: { declaration: { stripInternals: true } },
+        jsx: { runtime: 1 },
+        tsconfig: true,
+        target: 1,
+      }),
+    ).toEqual([
+      `formats[0]: expected "esm" | "cjs", received "umd"`,
+      `typescript.declaration.stripInternals: unknown option, did you mean "stripInternal"?`,
+      `jsx.runtime: expected "classic" | "automatic", received 1`,
+      `tsconfig: expected string | false, received boolean`,
+      `target: expected string | string[], received number`,
+    ])
+  })
+
+  test("arrays as build targets", () => {
+    expect(
+      validateOptions([{ srcdir: "lib", targets: {} }, { outDir: "out" }, 1]),
+    ).toEqual([
+      `[1].outDir: unknown option, did you mean "outdir"?`,
+      `[2]: expected object, received number`,
+    ])
+  })
+
+  test("targets without nested targets", () => {
+    expect(
+      validateOptions({ targets: { node: { targets: {}, target: "node20" } } }),
+    ).toEqual([`targets.node.targets: unknown option, did you mean "target"?`])
+  })
+
+  test("not an object", () => {
+    expect(validateOptions("src")).toEqual([
+      "expected an object of options, received string",
+    ])
+  })
+})
+
+test("suggest similar names", () => {
+  expect(suggest("outDir", ["srcdir", "outdir"])).toBe("outdir")
+  expect(suggest("entires", ["entries", "excludes"])).toBe("entries")
+  expect(suggest("minify", ["srcdir", "outdir"])).toBeUndefined()
+})
+
+test("json schema file is up to date", () => {
+  // Run `npm run schema` to update the file after changing options.
+  const file = new URL("../schema.json", import.meta.url)
+  expect(JSON.parse(readFileSync(file, "utf-8"))).toEqual(jsonSchema())
+})
@@ -0,0 +1,388 @@
+import { writeFileSync } from "node:fs"
+
+/** Subset of JSON Schema used to describe and validate options. */
+export type Schema = {
+  type?: "string" | "boolean" | "number" | "object" | "array"
+  description?: string
+  enum?: unknown[]
+  items?: Schema
+  properties?: Record<string, Schema>
+  additionalProperties?: boolean | Schema
+  anyOf?: Schema[]
+}
+
+const string = (description?: string): Schema => ({
+  type: "string",
+  description,
+})
+const boolean = (description?: string): Schema => ({
+  type: "boolean",
+  description,
+})
+const strings = (description?: string): Schema => ({
+  type: "array",
+  items: { type: "string" },
+  description,
+})
+const oneOf = (values: unknown[], description?: string): Schema => ({
+  enum: values,
+  description,
+})
+const object = (
+  properties: Record<string, Schema>,
+  description?: string,
+): Schema => ({
+  type: "object",
+  properties,
+  additionalProperties: false,
+  description,
+})
+const record = (values: Schema, description?: string): Schema => ({
+  type: "object",
+  additionalProperties: values,
+  description,
+})
+
+/** Schema of the styled-components plugin of oxc-transform. */
+const styledComponents: Schema = object({
+  displayName: boolean(),
+  fileName: boolean(),
+  ssr: boolean(),
+  transpileTemplateLiterals: boolean(),
+  minify: boolean(),
+  cssProp: boolean(),
+  pure: boolean(),
+  namespace: string(),
+  meaninglessFileNames: strings(),
+  topLevelImportPaths: strings(),
+})
+
+/** Schema of TransformOptions of oxc-transform. */
+const transformProperties: Record<string, Schema> = {
+  lang: oneOf(["js", "jsx", "ts", "tsx", "dts"], "Language of the sources."),
+  sourceType: oneOf(["script", "module", "unambiguous"]),
+  cwd: string("Working directory of the transformation."),
+  sourcemap: {
+    anyOf: [oneOf(["external", "inline", "hidden"]), boolean()],
+    description: 'How to output source maps, default to "external".',
+  },
+  sourcesContent: boolean("Whether to include contents of sources in maps."),
+  sourceRoot: string("Root of sources in maps, relative to srcdir."),
+  assumptions: object({
+    ignoreFunctionLength: boolean(),
+    noDocumentAll: boolean(),
+    objectRestNoSymbols: boolean(),
+    pureGetters: boolean(),
+    setPublicClassFields: boolean(),
+  }),
+  typescript: object(
+    {
+      jsxPragma: string(),
+      jsxPragmaFrag: string(),
+      onlyRemoveTypeImports: boolean(),
+      allowNamespaces: boolean(),
+      allowDeclareFields: boolean(),
+      removeClassFieldsWithoutInitializer: boolean(),
+      declaration: object({ stripInternal: boolean(), sourcemap: boolean() }),
+      rewriteImportExtensions: {
+        anyOf: [oneOf(["rewrite", "remove"]), boolean()],
+      },
+    },
+    "How TypeScript is transformed.",
+  ),
+  jsx: {
+    anyOf: [
+      oneOf(["preserve"]),
+      object({
+        runtime: oneOf(["classic", "automatic"]),
+        development: boolean(),
+        throwIfNamespace: boolean(),
+        pure: boolean(),
+        importSource: string(),
+        pragma: string(),
+        pragmaFrag: string(),
+        useBuiltIns: boolean(),
+        useSpread: boolean(),
+        refresh: {
+          anyOf: [
+            boolean(),
+            object({
+              refreshReg: string(),
+              refreshSig: string(),
+              emitFullSignatures: boolean(),
+            }),
+          ],
+        },
+      }),
+    ],
+    description: "How TSX and JSX are transformed.",
+  },
+  target: {
+    anyOf: [string(), strings()],
+    description: "Target environments, such as es2022 or node20.",
+  },
+  helpers: object({ mode: oneOf(["Runtime", "External"]) }),
+  define: record(string(), "Global identifiers replaced with expressions."),
+  inject: record({
+    anyOf: [string(), { type: "array", items: string() }],
+  }),
+  decorator: object({ legacy: boolean(), emitDecoratorMetadata: boolean() }),
+  plugins: {
+    anyOf: [
+      { type: "array", items: { type: "object" } },
+      object({ styledComponents }),
+    ],
+    description: "Plugins of the packing, or plugins of oxc-transform.",
+  },
+}
+
+/** Schema of options available for each build target. */
+const targetProperties: Record<string, Schema> = {
+  name: string("Name of the build target."),
+  ...transformProperties,
+  srcdir: string('Source directory, default to "src".'),
+  outdir: string('Output directory, default to "out".'),
+  formats: {
+    type: "array",
+    items: oneOf(["esm", "cjs"]),
+    description: 'Output formats, default to ["esm"].',
+  },
+  cjsOutdir: string("Output directory of CommonJS outputs."),
+  warningsAsErrors: boolean("Whether to fail on warnings as well."),
+  tsconfig: {
+    anyOf: [string(), oneOf([false])],
+    description: "Path to the tsconfig.json, false to disable.",
+  },
+  banner: {
+    anyOf: [string(), record(string())],
+    description: "Text before js outputs, or texts keyed by source globs.",
+  },
+  footer: {
+    anyOf: [string(), record(string())],
+    description: "Text after js outputs, or texts keyed by source globs.",
+  },
+  reporter: {
+    anyOf: [
+      oneOf(["default", "silent", "verbose", "json"]),
+      { type: "object" },
+    ],
+    description: "Built-in reporter of the packing, or custom handlers.",
+  },
+  includes: strings("Includes glob patterns."),
+  excludes: strings("Excludes glob patterns."),
+  assets: strings("Assets glob patterns, copied into outdir as is."),
+  emptyOutdir: boolean("Whether to empty outdir before packing."),
+  cache: {
+    anyOf: [string(), oneOf([false])],
+    description: "Directory of the build cache, false to disable.",
+  },
+  entries: record(string(), "Entry points keyed by subpaths of exports."),
+  packageJson: oneOf(
+    ["validate", "generate", false],
+    "How to handle the package.json when packing.",
+  ),
+  apiReport: string("Path to the API report of entries."),
+  bundle: boolean("Bundle each entry into a single ES module."),
+  dts: object(
+    {
+      bundle: boolean(
+        "Bundle declarations of each entry into a single declaration file.",
+      ),
+    },
+    "Options of the declaration outputs.",
+  ),
+}
+
+/**
+ * Schema of PackOptions, including TransformOptions of oxc-transform.
+ * Keep it in sync with {@link PackOptions} when adding options.
+ */
+export const optionsSchema: Schema = object({
+  $schema: string("Path or URL to this JSON Schema."),
+  extends: {
+    anyOf: [string(), strings()],
+    description: "Configuration files to extend, paths or package specifiers.",
+  },
+  ...targetProperties,
+  targets: record(
+    object(targetProperties),
+    "Build targets keyed by names, merged over the other options.",
+  ),
+})
+
+/** Error thrown when a configuration file is broken or invalid. */
+export class ConfigError extends Error {
+  readonly file: string
+  readonly issues: string[]
+
+  constructor(file: string, issues: string[]) {
+    super(
+      `Invalid configuration in ${file}:\n` +
+        issues.map((issue) => `  ${issue.replaceAll("\n", "\n  ")}`).join("\n"),
+    )
+    this.name = "ConfigError"
+    this.file = file
+    this.issues = issues
+  }
+}
+
+/** Levenshtein distance between two strings, case insensitive. */
+function distance(a: string, b: string): number {
+  a = a.toLowerCase()
+  b = b.toLowerCase()
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost,
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * Suggest the most similar candidate for a mistyped name.
+ *
+ * @param name the mistyped name.
+ * @param candidates all valid names.
+ * @returns the suggestion, or undefined if none is similar enough.
+ */
+export function suggest(
+  name: string,
+  candidates: string[],
+): string | undefined {
+  const limit = Math.max(2, Math.floor(name.length / 3))
+  let best: { candidate: string; score: number } | undefined
+  for (const candidate of candidates) {
+    const score = distance(name, candidate)
+    if (score <= limit && (!best || score < best.score)) {
+      best = { candidate, score }
+    }
+  }
+  return best?.candidate
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  return typeof value
+}
+
+/** Describe the expected value of a schema, such as "string[]". */
+function describe(schema: Schema): string {
+  if (schema.anyOf) return schema.anyOf.map(describe).join(" | ")
+  if (schema.enum) return schema.enum.map((v) => JSON.stringify(v)).join(" | ")
+  if (schema.type === "array") {
+    const items = describe(schema.items || {})
+    return items.includes(" | ") ? `(${items})[]` : `${items}[]`
+  }
+  return schema.type || "any"
+}
+
+function matches(value: unknown, schema: Schema): boolean {
+  if (schema.anyOf) return schema.anyOf.some((s) => matches(value, s))
+  if (schema.enum) return schema.enum.includes(value)
+  return !schema.type || schema.type === typeOf(value)
+}
+
+function check(
+  value: unknown,
+  schema: Schema,
+  path: string,
+  issues: string[],
+): void {
+  if (schema.anyOf) {
+    // Validate deeper into the only branch matching the type of value.
+    const branches = schema.anyOf.filter((s) => matches(value, s))
+    if (branches.length === 0) {
+      const expected = describe(schema)
+      issues.push(`${path}: expected ${expected}, received ${typeOf(value)}`)
+      return
+    }
+    return check(value, branches[0], path, issues)
+  }
+  if (!matches(value, schema)) {
+    const received = schema.enum ? JSON.stringify(value) : typeOf(value)
+    issues.push(`${path}: expected ${describe(schema)}, received ${received}`)
+    return
+  }
+
+  if (schema.type === "array" && schema.items) {
+    const items = value as unknown[]
+    items.forEach((item, i) =>
+      check(item, schema.items!, `${path}[${i}]`, issues),
+    )
+  }
+  if (schema.type === "object") {
+    const properties = schema.properties || {}
+    for (const [key, item] of Object.entries(value as object)) {
+      const name = path ? `${path}.${key}` : key
+      const property = properties[key]
+      if (property) {
+        if (item !== undefined) check(item, property, name, issues)
+      } else if (typeof schema.additionalProperties === "object") {
+        check(item, schema.additionalProperties, name, issues)
+      } else if (schema.additionalProperties === false) {
+        const suggestion = suggest(key, Object.keys(properties))
+        issues.push(
+          `${name}: unknown option` +
+            (suggestion ? `, did you mean "${suggestion}"?` : ""),
+        )
+      }
+    }
+  }
+}
+
+/**
+ * Validate loaded options against the {@link optionsSchema}.
+ *
+ * 1. Unknown keys are reported with "did you mean" suggestions.
+ * 2. Values of wrong types are reported with their keys.
+ * 3. Arrays are validated as build targets, prefixed with their indexes.
+ *
+ * @param options options loaded from the configuration file.
+ * @returns issues found, prefixed with the paths of keys.
+ */
+export function validateOptions(options: unknown): string[] {
+  const issues: string[] = []
+  if (Array.isArray(options)) {
+    check(options, { type: "array", items: optionsSchema }, "", issues)
+    return issues
+  }
+  if (typeOf(options) !== "object") {
+    issues.push(`expected an object of options, received ${typeOf(options)}`)
+    return issues
+  }
+  check(options, optionsSchema, "", issues)
+  return issues
+}
+
+/**
+ * Output the JSON Schema of options, for editor autocompletion
+ * of library-pack.json and library-pack.yaml files,
+ * which contain either options or an array of build targets.
+ */
+export function jsonSchema(): object {
+  const options = { $ref: "#/definitions/options" }
+  return {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    title: "library-pack options",
+    definitions: { options: JSON.parse(JSON.stringify(optionsSchema)) },
+    anyOf: [options, { type: "array", items: options }],
+  }
+}
+
+/**
+ * Write the JSON Schema of options into the file.
+ *
+ * @param file path to the output file.
+ */
+export function writeJsonSchema(file: string): void {
+  writeFileSync(file, JSON.stringify(jsonSchema(), null, 2) + "\n")
+}
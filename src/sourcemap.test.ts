@@ -0,0 +1,167 @@
+import { describe, expect, test } from "vitest"
+import {
+  applyEdits,
+  concatSourceMaps,
+  decodeMappings,
+  encodeMappings,
+  finishSourceMap,
+} from "./sourcemap.js"
+
+describe("mappings", () => {
+  test("decode segments", () => {
+    expect(decodeMappings("AAAA,IAAI;AACA,KAAK")).toEqual([
+      [
+        { column: 0, source: 0, line: 0, sourceColumn: 0 },
+        { column: 4, source: 0, line: 0, sourceColumn: 4 },
+      ],
+      [
+        { column: 0, source: 0, line: 1, sourceColumn: 4 },
+        { column: 5, source: 0, line: 1, sourceColumn: 9 },
+      ],
+    ])
+  })
+
+  test("decode names and empty lines", () => {
+    expect(decodeMappings(";AAAAA,C")).toEqual([
+      [],
+      [
+        { column: 0, source: 0, line: 0, sourceColumn: 0, name: 0 },
+        { column: 1 },
+      ],
+    ])
+  })
+
+  test("encode what was decoded", () => {
+    const mappings = "AAAA,SAAS,gBAAgB;;AAEjC,OAAOA,YAAY;AAC3B"
+    expect(encodeMappings(decodeMappings(mappings))).toBe(mappings)
+  })
+})
+
+describe("applyEdits", () => {
+  const map = {
+    version: 3,
+    sources: ["a.ts"],
+    names: [],
+    // Line 1: "import" at 0, "x" at 7, ";" at 19.
+    // Line 2: "x" at 0.
+    mappings: encodeMappings([
+      [
+        { column: 0, source: 0, line: 0, sourceColumn: 0 },
+        { column: 7, source: 0, line: 0, sourceColumn: 7 },
+        { column: 19, source: 0, line: 0, sourceColumn: 19 },
+      ],
+      [{ column: 0, source: 0, line: 1, sourceColumn: 0 }],
+    ]),
+  }
+
+  test("replace code", () => {
+    const code = `import x from "@/a.ts";\nx`
+    const result = applyEdits(code, [{ start: 14, end: 22, text: `"./a.js"` }])
+    expect(result.code).toBe(`import x from "./a.js";\nx`)
+    expect(result.map).toBeUndefined()
+  })
+
+  test("shift columns after edits", () => {
+    const code = `import x from "@/a";\nx`
+    const result = applyEdits(
+      code,
+      [{ start: 14, end: 19, text: `"./a.js"` }],
+      map,
+    )
+    expect(result.code).toBe(`import x from "./a.js";\nx`)
+    const lines = decodeMappings(result.map!.mappings)
+    expect(lines[0].map((segment) => segment.column)).toEqual([0, 7, 22])
+    expect(lines[1][0]).toEqual({
+      column: 0,
+      source: 0,
+      line: 1,
+      sourceColumn: 0,
+    })
+  })
+
+  test("shift lines after inserted lines", () => {
+    const code = `import x from "@/a";\nx`
+    const result = applyEdits(code, [{ start: 0, end: 0, text: "// a\n" }], map)
+    const lines = decodeMappings(result.map!.mappings)
+    expect(lines[0]).toEqual([])
+    expect(lines[1].map((segment) => segment.column)).toEqual([0, 7, 19])
+    expect(lines[2]).toHaveLength(1)
+  })
+})
+
+describe("concatSourceMaps", () => {
+  test("shift lines and merge sources and names", () => {
+    const a = {
+      version: 3,
+      sources: ["/src/a.ts"],
+      sourcesContent: ["a"],
+      names: ["a"],
+      mappings: "AAAAA",
+    }
+    const b = { ...a, sources: ["/src/b.ts"], sourcesContent: ["b"] }
+    const result = concatSourceMaps([
+      { code: "// header" },
+      { code: "a;\n", map: a },
+      { code: "b;", map: b },
+    ])
+    expect(result.code).toBe("// header\na;\nb;\n")
+    expect(result.map.sources).toEqual(["/src/a.ts", "/src/b.ts"])
+    expect(result.map.sourcesContent).toEqual(["a", "b"])
+    expect(result.map.names).toEqual(["a"])
+    expect(decodeMappings(result.map.mappings)).toEqual([
+      [],
+      [{ column: 0, source: 0, line: 0, sourceColumn: 0, name: 0 }],
+      [{ column: 0, source: 1, line: 0, sourceColumn: 0, name: 0 }],
+    ])
+  })
+})
+
+describe("finishSourceMap", () => {
+  const outfile = "/project/out/lib/a.js"
+  const map = {
+    version: 3,
+    sources: ["/project/src/lib/a.ts"],
+    sourcesContent: ["export const a: number = 1\n"],
+    names: [],
+    mappings: "AAAA",
+  }
+
+  test("refer to external maps by default", () => {
+    const result = finishSourceMap(outfile, "a;\n", map, {})
+    expect(result.code).toBe("a;\n//# sourceMappingURL=a.js.map\n")
+    expect(JSON.parse(result.map!)).toEqual({
+      version: 3,
+      sources: ["../../src/lib/a.ts"],
+      names: [],
+      mappings: "AAAA",
+    })
+  })
+
+  test("embed inline maps with contents", () => {
+    const options = { sourcemap: "inline" as const, sourcesContent: true }
+    const result = finishSourceMap(outfile, "a;", map, options)
+    expect(result.map).toBeUndefined()
+    const [, data] = result.code.split("base64,")
+    const inline = JSON.parse(Buffer.from(data, "base64").toString())
+    expect(inline.sourcesContent).toEqual(map.sourcesContent)
+  })
+
+  test("hide maps and relate sources to the root", () => {
+    const result = finishSourceMap(outfile, "a;\n", map, {
+      sourcemap: "hidden",
+      sourceRoot: "https://example.com/src/",
+      srcdir: "/project/src",
+    })
+    expect(result.code).toBe("a;\n")
+    expect(JSON.parse(result.map!)).toMatchObject({
+      sources: ["lib/a.ts"],
+      sourceRoot: "https://example.com/src/",
+    })
+  })
+
+  test("output no maps when disabled", () => {
+    expect(finishSourceMap(outfile, "a;\n", map, { sourcemap: false })).toEqual(
+      { code: "a;\n" },
+    )
+  })
+})
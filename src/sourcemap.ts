@@ -0,0 +1,314 @@
+import { basename, dirname, relative, resolve, sep } from "node:path"
+import { SourceMap } from "oxc-transform"
+
+/** A decoded mapping segment, all fields are 0-based and absolute. */
+export type Segment = {
+  column: number
+  source?: number
+  line?: number
+  sourceColumn?: number
+  name?: number
+}
+
+/** Replace the code between start and end (0-based offsets) with text. */
+export type Edit = {
+  start: number
+  end: number
+  text: string
+}
+
+const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/"
+
+function decodeVlq(text: string): number[] {
+  const values: number[] = []
+  let value = 0
+  let shift = 0
+  for (const char of text) {
+    const digit = chars.indexOf(char)
+    value += (digit & 31) << shift
+    if (digit & 32) {
+      shift += 5
+      continue
+    }
+    values.push(value & 1 ? -(value >>> 1) : value >>> 1)
+    value = 0
+    shift = 0
+  }
+  return values
+}
+
+function encodeVlq(value: number): string {
+  let vlq = value < 0 ? (-value << 1) | 1 : value << 1
+  let text = ""
+  do {
+    const digit = vlq & 31
+    vlq >>>= 5
+    text += chars[vlq > 0 ? digit | 32 : digit]
+  } while (vlq > 0)
+  return text
+}
+
+/**
+ * Decode the mappings of a source map into segments of each generated line.
+ *
+ * @param mappings the VLQ encoded mappings string.
+ */
+export function decodeMappings(mappings: string): Segment[][] {
+  let source = 0
+  let line = 0
+  let sourceColumn = 0
+  let name = 0
+  return mappings.split(";").map((text) => {
+    let column = 0
+    if (!text) return []
+    return text.split(",").map((raw) => {
+      const fields = decodeVlq(raw)
+      column += fields[0]
+      if (fields.length < 4) return { column }
+      source += fields[1]
+      line += fields[2]
+      sourceColumn += fields[3]
+      if (fields.length < 5) return { column, source, line, sourceColumn }
+      name += fields[4]
+      return { column, source, line, sourceColumn, name }
+    })
+  })
+}
+
+/**
+ * Encode segments of each generated line into VLQ mappings.
+ *
+ * @param lines segments of each generated line, sorted by column.
+ */
+export function encodeMappings(lines: Segment[][]): string {
+  let source = 0
+  let line = 0
+  let sourceColumn = 0
+  let name = 0
+  return lines
+    .map((segments) => {
+      let column = 0
+      return segments
+        .map((segment) => {
+          let text = encodeVlq(segment.column - column)
+          column = segment.column
+          if (segment.source === undefined) return text
+          text += encodeVlq(segment.source - source)
+          text += encodeVlq(segment.line! - line)
+          text += encodeVlq(segment.sourceColumn! - sourceColumn)
+          source = segment.source
+          line = segment.line!
+          sourceColumn = segment.sourceColumn!
+          if (segment.name === undefined) return text
+          text += encodeVlq(segment.name - name)
+          name = segment.name
+          return text
+        })
+        .join(",")
+    })
+    .join(";")
+}
+
+/** Offsets of the start of each line inside the code. */
+function lineStarts(code: string): number[] {
+  const starts = [0]
+  for (let i = 0; i < code.length; i++) {
+    if (code[i] === "\n") starts.push(i + 1)
+  }
+  return starts
+}
+
+/**
+ * Apply non-overlapping edits to the generated code,
+ * and shift the generated positions of the source map accordingly.
+ * Segments inside a replaced range will be moved to the start of it.
+ *
+ * @param code the generated code.
+ * @param edits edits to apply, in any order.
+ * @param map source map of the generated code, optional.
+ */
+export function applyEdits(
+  code: string,
+  edits: Edit[],
+  map?: SourceMap,
+): { code: string; map?: SourceMap } {
+  if (edits.length === 0) return { code, map }
+  const sorted = [...edits].sort((a, b) => a.start - b.start || a.end - b.end)
+
+  let result = ""
+  let last = 0
+  for (const edit of sorted) {
+    result += code.slice(last, edit.start) + edit.text
+    last = edit.end
+  }
+  result += code.slice(last)
+  if (!map) return { code: result }
+
+  function shift(offset: number) {
+    let delta = 0
+    for (const edit of sorted) {
+      if (offset < edit.start) break
+      if (offset < edit.end) return edit.start + delta
+      delta += edit.text.length - (edit.end - edit.start)
+    }
+    return offset + delta
+  }
+
+  const oldStarts = lineStarts(code)
+  const newStarts = lineStarts(result)
+  const lines: Segment[][] = newStarts.map(() => [])
+  let line = 0
+  decodeMappings(map.mappings).forEach((segments, index) => {
+    for (const segment of segments) {
+      const offset = shift(oldStarts[index] + segment.column)
+      while (line + 1 < newStarts.length && newStarts[line + 1] <= offset) {
+        line++
+      }
+      while (line > 0 && newStarts[line] > offset) line--
+      lines[line].push({ ...segment, column: offset - newStarts[line] })
+    }
+  })
+  while (lines.length > 0 && lines[lines.length - 1].length === 0) lines.pop()
+  return { code: result, map: { ...map, mappings: encodeMappings(lines) } }
+}
+
+/**
+ * Resolve the offset inside the source of an offset inside the generated code,
+ * at the closest mapped position before it on the same line.
+ *
+ * @param code the generated code.
+ * @param map source map of the generated code into the source.
+ * @param source content of the source.
+ * @param offset 0-based offset inside the generated code.
+ * @returns 0-based offset inside the source, 0 if not mapped.
+ */
+export function originalOffset(
+  code: string,
+  map: SourceMap,
+  source: string,
+  offset: number,
+): number {
+  const before = code.slice(0, offset).split("\n")
+  const column = before[before.length - 1].length
+  const segment = (decodeMappings(map.mappings)[before.length - 1] || [])
+    .filter((segment) => segment.column <= column && segment.line !== undefined)
+    .pop()
+  if (!segment) return 0
+  const lines = source.split("\n").slice(0, segment.line)
+  const start = lines.reduce((sum, line) => sum + line.length + 1, 0)
+  return start + segment.sourceColumn!
+}
+
+/**
+ * Concatenate pieces of generated code line by line,
+ * and merge their source maps with sources and names deduplicated.
+ * Each piece starts on a new line, and pieces without maps are unmapped.
+ *
+ * @param pieces generated code of each piece, with its source map if any.
+ */
+export function concatSourceMaps(pieces: { code: string; map?: SourceMap }[]): {
+  code: string
+  map: SourceMap
+} {
+  const sources: string[] = []
+  const sourcesContent: string[] = []
+  const names: string[] = []
+  const indexOf = (list: string[], value: string) => {
+    const index = list.indexOf(value)
+    return index < 0 ? list.push(value) - 1 : index
+  }
+
+  let code = ""
+  const lines: Segment[][] = []
+  for (const piece of pieces) {
+    const text = piece.code.endsWith("\n") ? piece.code : `${piece.code}\n`
+    const count = text.split("\n").length - 1
+    const decoded = piece.map ? decodeMappings(piece.map.mappings) : []
+    const map = piece.map
+    for (let line = 0; line < count; line++) {
+      const segments = decoded[line] || []
+      lines.push(
+        segments.map((segment) => {
+          if (!map || segment.source === undefined) return segment
+          const source = map.sources[segment.source]
+          const index = indexOf(sources, source)
+          sourcesContent[index] ??= map.sourcesContent?.[segment.source] ?? ""
+          const name =
+            segment.name === undefined
+              ? undefined
+              : indexOf(names, map.names[segment.name])
+          return { ...segment, source: index, name }
+        }),
+      )
+    }
+    code += text
+  }
+  while (lines.length > 0 && lines[lines.length - 1].length === 0) lines.pop()
+  const mappings = encodeMappings(lines)
+  return {
+    code,
+    map: { version: 3, sources, sourcesContent, names, mappings },
+  }
+}
+
+/**
+ * How to output source maps.
+ *
+ * 1. "external" writes .map files referred by sourceMappingURL comments.
+ * 2. "inline" embeds the maps into the comments as data URLs.
+ * 3. "hidden" writes .map files without the comments.
+ */
+export type SourcemapMode = "external" | "inline" | "hidden"
+
+/** Options of source maps in the output, see {@link finishSourceMap}. */
+export type SourcemapOptions = {
+  sourcemap?: SourcemapMode | boolean
+  sourcesContent?: boolean
+  sourceRoot?: string
+  srcdir?: string
+}
+
+/**
+ * Finish the source map of an output file according to the options.
+ *
+ * 1. Sources are relative to the output file,
+ *    or to srcdir when sourceRoot is specified.
+ * 2. Contents of sources are only kept with sourcesContent.
+ * 3. The sourceMappingURL comment is appended unless hidden,
+ *    referring to the .map file, or embedding the map when inline.
+ *
+ * @param outfile absolute path to the output file.
+ * @param code content of the output file.
+ * @param map source map of the output file, optional.
+ * @param options options of source maps, "external" by default.
+ * @returns the content of the output file and of its .map file if any.
+ */
+export function finishSourceMap(
+  outfile: string,
+  code: string,
+  map: SourceMap | undefined,
+  options: SourcemapOptions,
+): { code: string; map?: string } {
+  const mode = options.sourcemap === true ? "external" : options.sourcemap
+  if (!map || mode === false) return { code }
+  const base = options.sourceRoot
+    ? resolve(options.srcdir || "src")
+    : dirname(outfile)
+  const json = JSON.stringify({
+    ...map,
+    sources: map.sources?.map((source) =>
+      relative(base, source).replaceAll(sep, "/"),
+    ),
+    sourcesContent: options.sourcesContent ? map.sourcesContent : undefined,
+    sourceRoot: options.sourceRoot,
+  } satisfies SourceMap)
+  if (mode === "hidden") return { code, map: json }
+
+  const url =
+    mode === "inline"
+      ? `data:application/json;base64,${Buffer.from(json).toString("base64")}`
+      : `${basename(outfile)}.map`
+  const newline = code.length === 0 || code.endsWith("\n") ? "" : "\n"
+  const comment = `${newline}//# sourceMappingURL=${url}\n`
+  return { code: code + comment, map: mode === "inline" ? undefined : json }
+}
@@ -0,0 +1,152 @@
+import {
+  mkdirSync,
+  mkdtempSync,
+  rmSync,
+  utimesSync,
+  writeFileSync,
+} from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { afterEach, beforeEach, describe, expect, test } from "vitest"
+import {
+  findSourceFile,
+  findSpecifiers,
+  loadAliases,
+  resolveLocalSpecifier,
+  resolveSpecifiers,
+  rewriteSpecifiers,
+} from "./specifiers.js"
+
+describe("findSpecifiers", () => {
+  test("imports exports and require calls", () => {
+    const code =
+      `import a from "./a.ts"\n` +
+      `export * from '@/b.ts'\n` +
+      `export { c } from "c"\n` +
+      `const d = await import("./d.ts")\n` +
+      `const e = require("e")\n`
+    expect(findSpecifiers("index.ts", code).map((s) => s.value)).toEqual([
+      "./a.ts",
+      "@/b.ts",
+      "c",
+      "./d.ts",
+      "e",
+    ])
+  })
+
+  test("import types in declarations", () => {
+    const code = `export declare const a: import("@/a.ts").A\n`
+    const [specifier] = findSpecifiers("index.d.ts", code)
+    expect(specifier.value).toBe("@/a.ts")
+    expect(code.slice(specifier.start, specifier.end)).toBe(`"@/a.ts"`)
+  })
+})
+
+describe("resolve and rewrite", () => {
+  let root: string
+  let srcdir: string
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "library-pack-"))
+    srcdir = join(root, "src")
+    mkdirSync(join(srcdir, "lib"), { recursive: true })
+    writeFileSync(join(srcdir, "config.ts"), "")
+    writeFileSync(join(srcdir, "lib", "index.ts"), "")
+    writeFileSync(join(root, "outside.ts"), "")
+    writeFileSync(
+      join(root, "tsconfig.json"),
+      `{ "compilerOptions": { "paths": { "@/*": ["./src/*"], "~/*": ["./*"] } } }`,
+    )
+  })
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  test("find source files", () => {
+    expect(findSourceFile(join(srcdir, "config"))).toBe(
+      join(srcdir, "config.ts"),
+    )
+    expect(findSourceFile(join(srcdir, "config.js"))).toBe(
+      join(srcdir, "config.ts"),
+    )
+    expect(findSourceFile(join(srcdir, "lib"))).toBe(
+      join(srcdir, "lib", "index.ts"),
+    )
+    expect(findSourceFile(join(srcdir, "missing"))).toBeUndefined()
+  })
+
+  test("resolve local specifiers into source files", () => {
+    const file = join(srcdir, "lib", "index.ts")
+    const options = { srcdir }
+    const resolve = (specifier: string) =>
+      resolveLocalSpecifier(file, specifier, options)
+    expect(resolve("../config.js")).toBe(join(srcdir, "config.ts"))
+    expect(resolve("@/lib")).toBe(file)
+    expect(resolve("./missing.ts")).toBeNull()
+    expect(resolve("vitest")).toBeUndefined()
+  })
+
+  test("resolve aliases into relative paths", () => {
+    const file = join(srcdir, "lib", "main.ts")
+    const code =
+      `import { a } from "@/config.ts"\n` +
+      `import { b } from "@/lib"\n` +
+      `import { c } from "./c.ts"\n` +
+      `import { d } from "d"\n`
+    const { rewrites, diagnostics } = resolveSpecifiers(file, code, { srcdir })
+    expect(diagnostics).toEqual([])
+    expect(Object.fromEntries(rewrites)).toEqual({
+      "@/config.ts": "../config.js",
+      "@/lib": "./index.js",
+      "./c.ts": "./c.js",
+    })
+  })
+
+  test("report unresolvable aliases", () => {
+    const file = join(srcdir, "main.ts")
+    const code = `import a from "@/missing.ts"\nimport b from "~/outside.ts"\n`
+    const { diagnostics } = resolveSpecifiers(file, code, { srcdir })
+    expect(diagnostics).toHaveLength(2)
+    expect(diagnostics[0]).toMatchObject({
+      file,
+      line: 1,
+      column: 15,
+      severity: "error",
+      message: `Cannot resolve path alias "@/missing.ts"`,
+    })
+    expect(diagnostics[1].message).toContain("resolves outside srcdir")
+  })
+
+  test("reload aliases when any tsconfig of the chain changes", () => {
+    const base = join(root, "base.json")
+    writeFileSync(base, `{ "compilerOptions": { "paths": { "#": ["./a"] } } }`)
+    writeFileSync(join(root, "tsconfig.json"), `{ "extends": "./base.json" }`)
+    expect(loadAliases({ srcdir })).toEqual({ "#": [join(root, "a")] })
+
+    writeFileSync(base, `{ "compilerOptions": { "paths": { "#": ["./b"] } } }`)
+    const later = new Date(Date.now() + 10_000)
+    utimesSync(base, later, later)
+    expect(loadAliases({ srcdir })).toEqual({ "#": [join(root, "b")] })
+  })
+
+  test("ignore aliases when disabled", () => {
+    const file = join(srcdir, "main.ts")
+    const code = `import a from "@/missing.ts"\n`
+    const result = resolveSpecifiers(file, code, { srcdir, tsconfig: false })
+    expect(result.diagnostics).toEqual([])
+  })
+
+  test("rewrite specifiers in output", () => {
+    const rewrites = new Map([["@/config.ts", "./config.js"]])
+    const rewrite = (specifier: string) => rewrites.get(specifier) || specifier
+    const js = `import { a } from '@/config.ts';\n`
+    const dts = `export declare const b: import("@/config.ts").A;\n`
+    expect(rewriteSpecifiers("main.js", js, rewrite).code).toBe(
+      `import { a } from './config.js';\n`,
+    )
+    expect(rewriteSpecifiers("main.d.ts", dts, rewrite).code).toBe(
+      `export declare const b: import("./config.js").A;\n`,
+    )
+  })
+})
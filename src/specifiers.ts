@@ -0,0 +1,239 @@
+import { FileOptions } from "@/config.ts"
+import { createDiagnostic, Diagnostic } from "@/diagnostics.ts"
+import { outputPath, sourceExtensions } from "@/extensions.ts"
+import { applyEdits } from "@/sourcemap.ts"
+import {
+  loadPathAliases,
+  matchPathAlias,
+  PathAliases,
+  resolveTsconfig,
+  tsconfigFiles,
+} from "@/tsconfig.ts"
+import { existsSync, statSync } from "node:fs"
+import { dirname, join, relative, resolve, sep } from "node:path"
+import { parseSync } from "oxc-parser"
+import { SourceMap } from "oxc-transform"
+
+/**
+ * A module specifier inside the code.
+ * The start and end offsets include the quotes of the string literal.
+ */
+export type Specifier = {
+  value: string
+  start: number
+  end: number
+}
+
+/** Result of resolving the specifiers of a source file. */
+export type SpecifierRewrites = {
+  /** Rewritten specifiers keyed by the original ones. */
+  rewrites: Map<string, string>
+  diagnostics: Diagnostic[]
+}
+
+type Node = { type?: string; [key: string]: unknown }
+type Literal = { type: "Literal"; value: unknown; start: number; end: number }
+
+function asLiteral(node: unknown): Literal | undefined {
+  const literal = node as Literal | undefined
+  if (literal?.type !== "Literal" || typeof literal.value !== "string") return
+  return literal
+}
+
+function specifierOf(node: Node): Literal | undefined {
+  switch (node.type) {
+    case "ImportDeclaration":
+    case "ExportNamedDeclaration":
+    case "ExportAllDeclaration":
+    case "ImportExpression":
+      return asLiteral(node.source)
+    case "TSExternalModuleReference":
+      return asLiteral(node.expression)
+    case "TSImportType": {
+      const argument = node.argument as Node | undefined
+      return asLiteral(argument?.literal) || asLiteral(argument)
+    }
+    case "CallExpression": {
+      const callee = node.callee as { type: string; name?: string }
+      const args = node.arguments as unknown[]
+      if (callee.type !== "Identifier" || callee.name !== "require") return
+      return args.length === 1 ? asLiteral(args[0]) : undefined
+    }
+  }
+}
+
+/**
+ * Find all module specifiers inside the code,
+ * including static and dynamic imports, re-exports,
+ * import types of declarations, and require calls.
+ *
+ * @param file path to the file, its extension decides the language.
+ * @param code content of the file.
+ */
+export function findSpecifiers(file: string, code: string): Specifier[] {
+  const { program } = parseSync(file, code)
+  const specifiers: Specifier[] = []
+  const visit = (node: unknown) => {
+    if (Array.isArray(node)) return node.forEach(visit)
+    if (!node || typeof node !== "object") return
+    const literal = specifierOf(node as Node)
+    if (literal) {
+      const { value, start, end } = literal
+      specifiers.push({ value: value as string, start, end })
+    }
+    for (const value of Object.values(node)) visit(value)
+  }
+  visit(program)
+  return specifiers.sort((a, b) => a.start - b.start)
+}
+
+/**
+ * Find the source file a path refers to, as TypeScript resolves modules.
+ *
+ * 1. The path itself if it's an existing file.
+ * 2. The path with source extensions, or with .js replaced by .ts.
+ * 3. The index file inside the path if it's a directory.
+ *
+ * @param path absolute path without or with extension.
+ */
+export function findSourceFile(path: string): string | undefined {
+  const isFile = (file: string) => existsSync(file) && statSync(file).isFile()
+  if (isFile(path)) return path
+  const candidates = [
+    ...sourceExtensions.map((ext) => path + ext),
+    ...(/\.[cm]?jsx?$/.test(path)
+      ? [path.replace(/js(x?)$/, "ts$1"), path.replace(/\.js$/, ".tsx")]
+      : []),
+    ...sourceExtensions.map((ext) => join(path, `index${ext}`)),
+  ]
+  return candidates.find(isFile)
+}
+
+/** Path aliases with the modification times of the tsconfig files. */
+const aliasesCache = new Map<
+  string,
+  { mtimes: Map<string, number>; aliases: PathAliases }
+>()
+
+/**
+ * Load path aliases from the tsconfig specified in options,
+ * or the nearest one from srcdir upward,
+ * cached until any file of its extends chain is modified.
+ *
+ * @param options options containing srcdir and tsconfig.
+ */
+export function loadAliases(options: FileOptions): PathAliases {
+  const file = resolveTsconfig(options)
+  if (!file) return {}
+
+  const mtimeOf = (path: string) =>
+    existsSync(path) ? statSync(path).mtimeMs : undefined
+  const cached = aliasesCache.get(file)
+  const unchanged = (mtimes: Map<string, number>) =>
+    [...mtimes].every(([path, mtime]) => mtimeOf(path) === mtime)
+  if (cached && unchanged(cached.mtimes)) return cached.aliases
+  const mtimes = new Map(
+    tsconfigFiles(file).map((path) => [path, statSync(path).mtimeMs]),
+  )
+  const aliases = loadPathAliases(file)
+  aliasesCache.set(file, { mtimes, aliases })
+  return aliases
+}
+
+/**
+ * Resolve a relative specifier or path alias of a source file
+ * into the source file it refers to, see {@link findSourceFile}.
+ *
+ * @param file path to the source file, excepted to be absolute.
+ * @param specifier the module specifier.
+ * @param options options containing srcdir and tsconfig.
+ * @returns absolute path to the source file, null if not found,
+ *   or undefined if the specifier refers to a package.
+ */
+export function resolveLocalSpecifier(
+  file: string,
+  specifier: string,
+  options: FileOptions,
+): string | null | undefined {
+  const candidates =
+    specifier.startsWith("./") || specifier.startsWith("../")
+      ? [resolve(dirname(file), specifier)]
+      : matchPathAlias(specifier, loadAliases(options))
+  if (!candidates) return undefined
+  return candidates.map(findSourceFile).find((path) => !!path) || null
+}
+
+/**
+ * Resolve how the specifiers of a source file should be rewritten in output.
+ *
+ * 1. TypeScript extensions of relative specifiers are replaced,
+ *    such as "./utils.ts" into "./utils.js" and "./shim.cts" into "./shim.cjs".
+ * 2. Path aliases are rewritten into relative paths to the output files,
+ *    which must be resolved to source files inside srcdir.
+ * 3. Unresolvable aliases are reported as error diagnostics.
+ *
+ * @param file path to the source file, excepted to be absolute.
+ * @param code content of the source file.
+ * @param options options containing srcdir and tsconfig.
+ */
+export function resolveSpecifiers(
+  file: string,
+  code: string,
+  options: FileOptions,
+): SpecifierRewrites {
+  const srcdir = resolve(options.srcdir || "src")
+  const aliases = loadAliases(options)
+  const rewrites = new Map<string, string>()
+  const diagnostics: Diagnostic[] = []
+
+  for (const { value, start } of findSpecifiers(file, code)) {
+    if (rewrites.has(value)) continue
+    if (value.startsWith("./") || value.startsWith("../")) {
+      const rewritten = outputPath(value)
+      if (rewritten !== value) rewrites.set(value, rewritten)
+      continue
+    }
+
+    const candidates = matchPathAlias(value, aliases)
+    if (!candidates) continue
+    const target = candidates.map(findSourceFile).find((path) => !!path)
+    if (!target) {
+      const message = `Cannot resolve path alias "${value}"`
+      diagnostics.push(createDiagnostic(file, code, start, message))
+      continue
+    }
+    if (!target.startsWith(srcdir + sep)) {
+      const message = `Path alias "${value}" resolves outside srcdir: ${target}`
+      diagnostics.push(createDiagnostic(file, code, start, message))
+      continue
+    }
+
+    const path = relative(dirname(file), target).replaceAll(sep, "/")
+    const prefixed = path.startsWith("../") ? path : `./${path}`
+    rewrites.set(value, outputPath(prefixed))
+  }
+  return { rewrites, diagnostics }
+}
+
+/**
+ * Rewrite specifiers inside output code, and shift its source map.
+ *
+ * @param file path to the output file, its extension decides the language.
+ * @param code content of the output file.
+ * @param rewrite returns the rewritten specifier, or the original one.
+ * @param map source map of the output file, optional.
+ */
+export function rewriteSpecifiers(
+  file: string,
+  code: string,
+  rewrite: (specifier: string) => string,
+  map?: SourceMap,
+): { code: string; map?: SourceMap } {
+  const edits = findSpecifiers(file, code)
+    .filter(({ value }) => rewrite(value) !== value)
+    .map(({ value, start, end }) => {
+      const quote = code[start]
+      return { start, end, text: quote + rewrite(value) + quote }
+    })
+  return applyEdits(code, edits, map)
+}
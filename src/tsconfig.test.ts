@@ -0,0 +1,213 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { afterEach, beforeEach, describe, expect, test } from "vitest"
+import {
+  findTsconfig,
+  loadPathAliases,
+  matchPathAlias,
+  tsconfigFiles,
+  tsconfigOptions,
+} from "./tsconfig.js"
+
+describe("tsconfig", () => {
+  let root: string
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "library-pack-"))
+  })
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  test("find nearest tsconfig upward", () => {
+    mkdirSync(join(root, "src", "lib"), { recursive: true })
+    writeFileSync(join(root, "tsconfig.json"), "{}")
+    expect(findTsconfig(join(root, "src", "lib"))).toBe(
+      join(root, "tsconfig.json"),
+    )
+  })
+
+  test("load paths relative to tsconfig", () => {
+    writeFileSync(
+      join(root, "tsconfig.json"),
+      `{\n` +
+        `  // Aliases.\n` +
+        `  "compilerOptions": { "paths": { "@/*": ["./src/*"], }, },\n` +
+        `}`,
+    )
+    expect(loadPathAliases(join(root, "tsconfig.json"))).toEqual({
+      "@/*": [join(root, "src", "*")],
+    })
+  })
+
+  test("load paths relative to baseUrl", () => {
+    writeFileSync(
+      join(root, "tsconfig.json"),
+      `{ "compilerOptions": { "baseUrl": "src", "paths": { "~": ["."] } } }`,
+    )
+    expect(loadPathAliases(join(root, "tsconfig.json"))).toEqual({
+      "~": [join(root, "src")],
+    })
+  })
+
+  test("load paths of the extends chain", () => {
+    mkdirSync(join(root, "configs"))
+    writeFileSync(
+      join(root, "configs", "paths.json"),
+      `{ "compilerOptions": { "paths": { "@/*": ["../src/*"] } } }`,
+    )
+    writeFileSync(
+      join(root, "tsconfig.json"),
+      `{ "extends": "./configs/paths.json" }`,
+    )
+    expect(loadPathAliases(join(root, "tsconfig.json"))).toEqual({
+      "@/*": [join(root, "src", "*")],
+    })
+
+    writeFileSync(
+      join(root, "configs", "base.json"),
+      `{ "compilerOptions": { "baseUrl": "../lib" } }`,
+    )
+    writeFileSync(
+      join(root, "tsconfig.json"),
+      `{
+` +
+        `  "extends": ["./configs/base.json", "./configs/paths.json"],
+` +
+        `  "compilerOptions": { "paths": { "~/*": ["./*"] } },
+` +
+        `}`,
+    )
+    expect(loadPathAliases(join(root, "tsconfig.json"))).toEqual({
+      "~/*": [join(root, "lib", "*")],
+    })
+  })
+})
+
+describe("tsconfigOptions", () => {
+  let root: string
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "library-pack-"))
+  })
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  function writeJson(file: string, json: object) {
+    mkdirSync(join(root, file, ".."), { recursive: true })
+    writeFileSync(join(root, file), JSON.stringify(json, null, 2))
+  }
+
+  test("merge the extends chain", () => {
+    writeJson("node_modules/@org/tsconfig/tsconfig.json", {
+      compilerOptions: { target: "ES2020", strict: true },
+    })
+    writeJson("base.json", {
+      extends: "@org/tsconfig",
+      compilerOptions: { jsx: "react-jsx" },
+    })
+    writeJson("tsconfig.json", {
+      extends: ["./base"],
+      compilerOptions: { target: "ES2022" },
+    })
+    const { options } = tsconfigOptions(join(root, "tsconfig.json"))
+    expect(options).toEqual({ target: "es2022", jsx: { runtime: "automatic" } })
+    expect(tsconfigFiles(join(root, "tsconfig.json"))).toEqual([
+      join(root, "node_modules/@org/tsconfig/tsconfig.json"),
+      join(root, "base.json"),
+      join(root, "tsconfig.json"),
+    ])
+  })
+
+  test("map compilerOptions onto transform options", () => {
+    writeJson("tsconfig.json", {
+      compilerOptions: {
+        target: "ES2022",
+        jsx: "react",
+        jsxFactory: "h",
+        experimentalDecorators: true,
+        emitDecoratorMetadata: true,
+        verbatimModuleSyntax: true,
+        rewriteRelativeImportExtensions: true,
+        useDefineForClassFields: false,
+      },
+    })
+    const { options, diagnostics } = tsconfigOptions(
+      join(root, "tsconfig.json"),
+    )
+    expect(options).toEqual({
+      target: "es2022",
+      jsx: { runtime: "classic", pragma: "h" },
+      decorator: { legacy: true, emitDecoratorMetadata: true },
+      typescript: {
+        onlyRemoveTypeImports: true,
+        rewriteImportExtensions: "rewrite",
+        removeClassFieldsWithoutInitializer: true,
+      },
+      assumptions: { setPublicClassFields: true },
+    })
+    expect(diagnostics).toEqual([])
+  })
+
+  test("warn about settings oxc can't honor", () => {
+    writeJson("base.json", { compilerOptions: { module: "AMD" } })
+    writeJson("tsconfig.json", {
+      extends: "./base.json",
+      compilerOptions: { target: "ES5", outFile: "out/index.js" },
+    })
+    const { options, diagnostics } = tsconfigOptions(
+      join(root, "tsconfig.json"),
+    )
+    expect(options).toEqual({ target: "es2015" })
+    expect(diagnostics.map((d) => [d.file, d.severity, d.message])).toEqual([
+      [
+        join(root, "tsconfig.json"),
+        "warning",
+        'Unsupported target "es5", using "es2015" instead',
+      ],
+      [
+        join(root, "base.json"),
+        "warning",
+        'Unsupported module "amd", use formats instead',
+      ],
+      [
+        join(root, "tsconfig.json"),
+        "warning",
+        "Unsupported outFile, outputs follow the sources",
+      ],
+    ])
+  })
+})
+
+describe("matchPathAlias", () => {
+  const aliases = {
+    "@/*": ["/project/src/*"],
+    "@/lib/*": ["/project/lib/*", "/project/vendor/*"],
+    config: ["/project/config.ts"],
+  }
+
+  test("exact pattern", () => {
+    expect(matchPathAlias("config", aliases)).toEqual(["/project/config.ts"])
+  })
+
+  test("wildcard pattern", () => {
+    expect(matchPathAlias("@/utils.ts", aliases)).toEqual([
+      "/project/src/utils.ts",
+    ])
+  })
+
+  test("longest prefix wins", () => {
+    expect(matchPathAlias("@/lib/a", aliases)).toEqual([
+      "/project/lib/a",
+      "/project/vendor/a",
+    ])
+  })
+
+  test("not an alias", () => {
+    expect(matchPathAlias("node:fs", aliases)).toBeUndefined()
+  })
+})
@@ -0,0 +1,281 @@
+import { FileOptions } from "@/config.ts"
+import { createDiagnostic, Diagnostic } from "@/diagnostics.ts"
+import { existsSync, readFileSync, statSync } from "node:fs"
+import { createRequire } from "node:module"
+import { dirname, isAbsolute, join, resolve } from "node:path"
+import { TransformOptions } from "oxc-transform"
+import stripJsonComments from "strip-json-comments"
+
+/** The parts of tsconfig.json used by the packer. */
+export type Tsconfig = {
+  compilerOptions?: {
+    baseUrl?: string
+    paths?: Record<string, string[]>
+    [key: string]: unknown
+  }
+  [key: string]: unknown
+}
+
+/**
+ * Path aliases from the compilerOptions of tsconfig.
+ *
+ * 1. All targets of the paths are absolute.
+ * 2. Patterns may contain a single "*" wildcard, as in tsconfig.
+ */
+export type PathAliases = Record<string, string[]>
+
+/**
+ * Find the nearest tsconfig.json from the directory upward.
+ *
+ * @param dir directory to start searching from.
+ * @returns absolute path to the tsconfig.json, or undefined if not found.
+ */
+export function findTsconfig(dir: string): string | undefined {
+  let current = resolve(dir)
+  while (true) {
+    const file = join(current, "tsconfig.json")
+    if (existsSync(file) && statSync(file).isFile()) return file
+    const parent = dirname(current)
+    if (parent === current) return undefined
+    current = parent
+  }
+}
+
+/**
+ * Resolve the tsconfig.json of the packing.
+ *
+ * @param options options containing srcdir and tsconfig.
+ * @returns absolute path to the tsconfig option if specified,
+ *   or the nearest one from srcdir upward, undefined if disabled or not found.
+ */
+export function resolveTsconfig(options: FileOptions): string | undefined {
+  if (options.tsconfig === false) return undefined
+  if (options.tsconfig) return resolve(options.tsconfig)
+  return findTsconfig(options.srcdir || "src")
+}
+
+/** A tsconfig file in the extends chain, with its content. */
+type ChainedTsconfig = { file: string; code: string; config: Tsconfig }
+
+/**
+ * Resolve a tsconfig the file extends, either a path relative to it
+ * or a package specifier, with the .json extension optional.
+ */
+function resolveExtendedTsconfig(file: string, specifier: string): string {
+  if (specifier.startsWith(".") || isAbsolute(specifier)) {
+    const path = resolve(dirname(file), specifier)
+    if (existsSync(path) && statSync(path).isFile()) return path
+    if (existsSync(`${path}.json`)) return `${path}.json`
+  } else {
+    const require = createRequire(file)
+    for (const candidate of [specifier, `${specifier}/tsconfig.json`]) {
+      try {
+        return require.resolve(candidate)
+      } catch {
+        // Try the next candidate.
+      }
+    }
+  }
+  throw new Error(`Cannot find tsconfig "${specifier}" extended by ${file}`)
+}
+
+/**
+ * Load the extends chain of a tsconfig, extended files first.
+ *
+ * 1. Comments and trailing commas are allowed.
+ * 2. Extended files are paths relative to the extending one,
+ *    or package specifiers, an array of them loaded in order.
+ */
+function loadChain(file: string, seen = new Set<string>()): ChainedTsconfig[] {
+  if (seen.has(file)) throw new Error(`Circular tsconfig extends: ${file}`)
+  seen.add(file)
+  const code = readFileSync(file, "utf-8")
+  const config = JSON.parse(stripJsonComments(code, { trailingCommas: true }))
+  const specifiers = [config.extends ?? []].flat() as string[]
+  return [
+    ...specifiers.flatMap((specifier) =>
+      loadChain(resolveExtendedTsconfig(file, specifier), seen),
+    ),
+    { file, code, config },
+  ]
+}
+
+/**
+ * Files of the extends chain of a tsconfig, extended files first,
+ * to tell whether any of them changed.
+ *
+ * @param file path to the tsconfig file.
+ */
+export function tsconfigFiles(file: string): string[] {
+  return loadChain(resolve(file)).map((tsconfig) => tsconfig.file)
+}
+
+/**
+ * Merge compilerOptions of the extends chain into the last tsconfig,
+ * where those of the extending files take precedence.
+ */
+function mergeChain(chain: ChainedTsconfig[]): Tsconfig {
+  const compilerOptions = Object.assign(
+    {},
+    ...chain.map(({ config }) => config.compilerOptions),
+  )
+  return { ...chain[chain.length - 1].config, compilerOptions }
+}
+
+/** Settings of tsconfig mapped onto transform options, see {@link tsconfigOptions}. */
+export type TsconfigOptions = {
+  options: TransformOptions
+  /** Warnings of the settings that oxc-transform can't honor. */
+  diagnostics: Diagnostic[]
+}
+
+const jsxRuntimes: Record<string, TransformOptions["jsx"]> = {
+  preserve: "preserve",
+  "react-native": "preserve",
+  react: { runtime: "classic" },
+  "react-jsx": { runtime: "automatic" },
+  "react-jsxdev": { runtime: "automatic", development: true },
+}
+
+/**
+ * Map the compilerOptions of a tsconfig and its extends chain
+ * onto transform options of oxc-transform.
+ *
+ * 1. target is lowercased, and ES3 or ES5 is raised to es2015 with a warning.
+ * 2. jsx, jsxFactory, jsxFragmentFactory and jsxImportSource set jsx.
+ * 3. experimentalDecorators and emitDecoratorMetadata set decorator.
+ * 4. verbatimModuleSyntax keeps imports without types only.
+ * 5. rewriteRelativeImportExtensions rewrites relative .ts specifiers.
+ * 6. useDefineForClassFields set to false assigns class fields instead.
+ * 7. Settings changing the module system or bundling outputs,
+ *    and jsx "react-native", are warned as unsupported.
+ *
+ * @param file path to the tsconfig file.
+ */
+export function tsconfigOptions(file: string): TsconfigOptions {
+  const chain = loadChain(resolve(file))
+  const compilerOptions = mergeChain(chain).compilerOptions || {}
+  const setting = <T>(key: string) => compilerOptions[key] as T | undefined
+  const diagnostics: Diagnostic[] = []
+  const warn = (key: string, message: string) => {
+    const origin = [...chain]
+      .reverse()
+      .find(({ config }) => config.compilerOptions?.[key] !== undefined)!
+    const offset = Math.max(0, origin.code.indexOf(`"${key}"`))
+    diagnostics.push(
+      createDiagnostic(origin.file, origin.code, offset, message, "warning"),
+    )
+  }
+
+  const options: TransformOptions = {}
+  const target = setting<string>("target")?.toLowerCase()
+  if (target === "es3" || target === "es5") {
+    warn("target", `Unsupported target "${target}", using "es2015" instead`)
+    options.target = "es2015"
+  } else if (target) options.target = target
+
+  const jsx = setting<string>("jsx")
+  if (jsx && jsxRuntimes[jsx]) {
+    if (jsx === "react-native") warn("jsx", `Unsupported jsx "${jsx}"`)
+    options.jsx = jsxRuntimes[jsx]
+  }
+  if (options.jsx && options.jsx !== "preserve") {
+    const pragma = setting<string>("jsxFactory")
+    const pragmaFrag = setting<string>("jsxFragmentFactory")
+    const importSource = setting<string>("jsxImportSource")
+    options.jsx = { ...options.jsx, pragma, pragmaFrag, importSource }
+  }
+
+  const legacy = setting<boolean>("experimentalDecorators")
+  const emitDecoratorMetadata = setting<boolean>("emitDecoratorMetadata")
+  if (legacy || emitDecoratorMetadata) {
+    options.decorator = { legacy, emitDecoratorMetadata }
+  }
+
+  const typescript: TransformOptions["typescript"] = {}
+  if (setting("verbatimModuleSyntax")) typescript.onlyRemoveTypeImports = true
+  if (setting("rewriteRelativeImportExtensions")) {
+    typescript.rewriteImportExtensions = "rewrite"
+  }
+  if (setting("useDefineForClassFields") === false) {
+    typescript.removeClassFieldsWithoutInitializer = true
+    options.assumptions = { setPublicClassFields: true }
+  }
+  if (Object.keys(typescript).length > 0) options.typescript = typescript
+
+  const module = setting<string>("module")?.toLowerCase()
+  if (module && ["amd", "umd", "system", "none"].includes(module)) {
+    warn("module", `Unsupported module "${module}", use formats instead`)
+  }
+  if (setting("outFile") !== undefined) {
+    warn("outFile", "Unsupported outFile, outputs follow the sources")
+  }
+  return { options, diagnostics }
+}
+
+/**
+ * Load path aliases from the compilerOptions of a tsconfig file
+ * and its extends chain, as tsc does.
+ *
+ * 1. paths of the last file setting them replace those it extends.
+ * 2. Targets are relative to baseUrl when specified,
+ *    which is relative to the file setting it,
+ *    or the directory of the file setting paths otherwise.
+ *
+ * @param file path to the tsconfig file.
+ */
+export function loadPathAliases(file: string): PathAliases {
+  let baseUrl: string | undefined
+  let paths: Record<string, string[]> = {}
+  let pathsDir = dirname(resolve(file))
+  for (const tsconfig of loadChain(resolve(file))) {
+    const options = tsconfig.config.compilerOptions || {}
+    const dir = dirname(tsconfig.file)
+    if (options.baseUrl !== undefined) baseUrl = resolve(dir, options.baseUrl)
+    if (options.paths !== undefined) {
+      paths = options.paths
+      pathsDir = dir
+    }
+  }
+  const base = baseUrl ?? pathsDir
+  const aliases: PathAliases = {}
+  for (const [pattern, targets] of Object.entries(paths)) {
+    aliases[pattern] = targets.map((target) => resolve(base, target))
+  }
+  return aliases
+}
+
+/**
+ * Match a specifier against path aliases.
+ *
+ * 1. Exact patterns take precedence over wildcard patterns.
+ * 2. Among wildcard patterns, the one with the longest prefix wins.
+ *
+ * @param specifier the module specifier to match.
+ * @param aliases path aliases with absolute targets.
+ * @returns absolute candidate paths, or undefined if not an alias.
+ */
+export function matchPathAlias(
+  specifier: string,
+  aliases: PathAliases,
+): string[] | undefined {
+  if (aliases[specifier] && !specifier.includes("*")) {
+    return aliases[specifier]
+  }
+
+  let matched: { prefix: string; captured: string } | undefined
+  let targets: string[] | undefined
+  for (const [pattern, candidates] of Object.entries(aliases)) {
+    const star = pattern.indexOf("*")
+    if (star < 0) continue
+    const prefix = pattern.slice(0, star)
+    const suffix = pattern.slice(star + 1)
+    if (specifier.length < prefix.length + suffix.length) continue
+    if (!specifier.startsWith(prefix) || !specifier.endsWith(suffix)) continue
+    if (matched && matched.prefix.length >= prefix.length) continue
+    const captured = specifier.slice(prefix.length, -suffix.length || undefined)
+    matched = { prefix, captured }
+    targets = candidates
+  }
+  return targets?.map((target) => target.replace("*", matched!.captured))
+}
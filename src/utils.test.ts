@@ -1,12 +1,6 @@
 import { beforeEach, describe, expect, test, vi } from "vitest"
-import {
-  existsSync,
-  readdirSync,
-  rmSync,
-  statSync,
-  writeFileSync,
-} from "./test/mocks.js"
-import { maybeEmptyDir, maybeWriteFile } from "./utils.js"
+import { existsSync, readdirSync, rmSync, statSync } from "./test/mocks.js"
+import { maybeEmptyDir } from "./utils.js"
 
 // Mock dependencies.
 vi.mock("node:fs", () => ({
@@ -14,51 +8,8 @@ vi.mock("node:fs", () => ({
   statSync,
   readdirSync,
   rmSync,
-  writeFileSync,
 }))
 
-describe("maybeWriteFile", () => {
-  beforeEach(() => {
-    vi.clearAllMocks()
-  })
-
-  test("write file with data", () => {
-    const file = "test.txt"
-    const data = "Hello, World!"
-    const options = { encoding: "utf-8" as const }
-
-    maybeWriteFile(file, data, options)
-
-    expect(writeFileSync).toHaveBeenCalledWith(file, data, options)
-  })
-
-  test("skip write when data undefined", () => {
-    const file = "test.txt"
-
-    maybeWriteFile(file, undefined)
-
-    expect(writeFileSync).not.toHaveBeenCalled()
-  })
-
-  test("write file with empty string", () => {
-    const file = "test.txt"
-    const data = ""
-
-    maybeWriteFile(file, data)
-
-    expect(writeFileSync).toHaveBeenCalledWith(file, data, undefined)
-  })
-
-  test("write file with default options", () => {
-    const file = "config.json"
-    const data = '{"key": "value"}'
-
-    maybeWriteFile(file, data)
-
-    expect(writeFileSync).toHaveBeenCalledWith(file, data, undefined)
-  })
-})
-
 describe("maybeEmptyDir", () => {
   beforeEach(() => {
     vi.clearAllMocks()
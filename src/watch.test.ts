@@ -0,0 +1,229 @@
+import consola from "consola"
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest"
+import { detectOptionsFile, loadRunOptions } from "./config.js"
+import {
+  collectAssets,
+  collectFiles,
+  copyAsset,
+  pack,
+  transform,
+} from "./index.js"
+import { saveManifest } from "./manifest.js"
+import { existsSync, rmSync } from "./test/mocks.js"
+import { watch } from "./watch.js"
+
+type Listener = (event: string, name: string | null) => void
+const listeners = new Map<string, Listener>()
+
+// Mock dependencies.
+vi.mock("consola", () => ({
+  default: {
+    info: vi.fn(),
+    error: vi.fn(),
+    success: vi.fn(),
+  },
+}))
+
+vi.mock("node:fs", () => ({
+  existsSync,
+  rmSync,
+  watch: vi.fn((dir: string, ...args: unknown[]) => {
+    listeners.set(dir, args[args.length - 1] as Listener)
+    return { close: vi.fn() }
+  }),
+}))
+
+vi.mock("./index.js", () => ({
+  pack: vi.fn(() => Promise.resolve()),
+  transform: vi.fn(() => Promise.resolve([])),
+  collectFiles: vi.fn(() => Promise.resolve(["/project/src/a.ts"])),
+  outputFiles: vi.fn((file: string) => [file.replace("/src/", "/out/")]),
+  collectAssets: vi.fn(() => Promise.resolve(["/project/src/data.json"])),
+  assetOutputs: vi.fn((file: string) => [file.replace("/src/", "/out/")]),
+  copyAsset: vi.fn(),
+}))
+
+vi.mock("./manifest.js", () => ({
+  loadManifest: vi.fn(() => ({
+    outputs: { "/project/src/a.ts": ["/project/out/a.ts"] },
+  })),
+  saveManifest: vi.fn(),
+}))
+
+vi.mock("./config.js", () => ({
+  targetsOf: vi.fn((options) =>
+    options.targets
+      ? Object.entries(options.targets).map(([name, target]) => ({
+          ...(target as object),
+          name,
+        }))
+      : [options],
+  ),
+  detectOptionsFile: vi.fn(() => "/project/library-pack.yaml"),
+  loadRunOptions: vi.fn(() =>
+    Promise.resolve({ srcdir: "/project/src", outdir: "/project/out" }),
+  ),
+  resolveOptions: vi.fn((options) => options),
+}))
+
+/** Emit a file system event and wait for the debounced rebuild. */
+async function emit(dir: string, name: string) {
+  listeners.get(dir)!("change", name)
+  await vi.advanceTimersByTimeAsync(100)
+}
+
+describe("watch", () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.useFakeTimers()
+    listeners.clear()
+    existsSync.mockReturnValue(true)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  test("pack all sources initially", async () => {
+    const watcher = await watch({ root: "/project" })
+    expect(pack).toHaveBeenCalledTimes(1)
+    expect(listeners.has("/project/src")).toBe(true)
+    watcher.close()
+  })
+
+  test("transform only changed sources", async () => {
+    const watcher = await watch({ root: "/project" })
+    await emit("/project/src", "a.ts")
+    expect(transform).toHaveBeenCalledTimes(1)
+    expect(transform).toHaveBeenCalledWith(
+      "/project/src/a.ts",
+      expect.anything(),
+    )
+    expect(pack).toHaveBeenCalledTimes(1)
+    watcher.close()
+  })
+
+  test("transform added sources", async () => {
+    const watcher = await watch({ root: "/project" })
+    vi.mocked(collectFiles).mockResolvedValueOnce([
+      "/project/src/a.ts",
+      "/project/src/b.ts",
+    ])
+    await emit("/project/src", "b.ts")
+    expect(transform).toHaveBeenCalledTimes(1)
+    expect(transform).toHaveBeenCalledWith(
+      "/project/src/b.ts",
+      expect.anything(),
+    )
+    expect(saveManifest).toHaveBeenCalledWith(expect.anything(), {
+      outputs: {
+        "/project/src/a.ts": ["/project/out/a.ts"],
+        "/project/src/b.ts": ["/project/out/b.ts"],
+      },
+    })
+    watcher.close()
+  })
+
+  test("ignore changes not matching includes", async () => {
+    const watcher = await watch({ root: "/project" })
+    await emit("/project/src", "a.test.ts")
+    expect(transform).not.toHaveBeenCalled()
+    watcher.close()
+  })
+
+  test("remove outputs of removed sources", async () => {
+    const watcher = await watch({ root: "/project" })
+    vi.mocked(collectFiles).mockResolvedValueOnce([])
+    await emit("/project/src", "a.ts")
+    expect(rmSync).toHaveBeenCalledWith("/project/out/a.ts", { force: true })
+    expect(transform).not.toHaveBeenCalled()
+    expect(saveManifest).toHaveBeenCalledWith(expect.anything(), {
+      outputs: {},
+    })
+    watcher.close()
+  })
+
+  test("copy changed assets and remove copies of removed ones", async () => {
+    const watcher = await watch({ root: "/project" })
+    await emit("/project/src", "data.json")
+    expect(copyAsset).toHaveBeenCalledWith(
+      "/project/src/data.json",
+      expect.anything(),
+    )
+    expect(transform).not.toHaveBeenCalled()
+
+    vi.mocked(collectAssets).mockResolvedValueOnce([])
+    await emit("/project/src", "data.json")
+    expect(rmSync).toHaveBeenCalledWith("/project/out/data.json", {
+      force: true,
+    })
+    watcher.close()
+  })
+
+  test("reload when configuration file changes", async () => {
+    const watcher = await watch({ root: "/project" })
+    await emit("/project", "library-pack.yaml")
+    expect(loadRunOptions).toHaveBeenCalledTimes(2)
+    expect(pack).toHaveBeenCalledTimes(2)
+    watcher.close()
+  })
+
+  test("reload when package.json with options changes", async () => {
+    vi.mocked(detectOptionsFile).mockReturnValue("/project/package.json")
+    const watcher = await watch({ root: "/project" })
+    await emit("/project", "tsconfig.json")
+    expect(pack).toHaveBeenCalledTimes(1)
+    await emit("/project", "package.json")
+    expect(pack).toHaveBeenCalledTimes(2)
+    watcher.close()
+    vi.mocked(detectOptionsFile).mockReturnValue("/project/library-pack.yaml")
+  })
+
+  test("watch sources of each target", async () => {
+    vi.mocked(loadRunOptions).mockResolvedValueOnce({
+      targets: {
+        a: { srcdir: "/project/a", outdir: "/project/out/a" },
+        b: { srcdir: "/project/b", outdir: "/project/out/b" },
+      },
+    })
+    vi.mocked(collectFiles).mockImplementation(async (options) => [
+      `${options.srcdir}/index.ts`,
+    ])
+    const watcher = await watch({ root: "/project" })
+    expect(pack).toHaveBeenCalledTimes(1)
+    await emit("/project/b", "index.ts")
+    expect(transform).toHaveBeenCalledTimes(1)
+    expect(transform).toHaveBeenCalledWith(
+      "/project/b/index.ts",
+      expect.objectContaining({ name: "b" }),
+    )
+    watcher.close()
+    vi.mocked(collectFiles).mockImplementation(async () => [
+      "/project/src/a.ts",
+    ])
+  })
+
+  test("report failed rebuilds through the reporter", async () => {
+    const message = vi.fn()
+    const custom = await watch({
+      srcdir: "/project/src",
+      reporter: { message },
+    })
+    vi.mocked(transform).mockRejectedValueOnce(new Error("Broken"))
+    await emit("/project/src", "a.ts")
+    expect(message).toHaveBeenCalledWith({ level: "error", message: "Broken" })
+    custom.close()
+
+    const silent = await watch({ srcdir: "/project/src", reporter: "silent" })
+    vi.mocked(transform).mockRejectedValueOnce(new Error("Broken"))
+    await emit("/project/src", "a.ts")
+    expect(consola.error).not.toHaveBeenCalled()
+    silent.close()
+  })
+
+  test("not watch configuration without file or root", async () => {
+    const watcher = await watch({ srcdir: "/project/src" })
+    expect(listeners.has("/project")).toBe(false)
+    watcher.close()
+  })
+})
@@ -0,0 +1,224 @@
+import {
+  detectOptionsFile,
+  loadRunOptions,
+  PackOptions,
+  resolveOptions,
+  RunPathOptions,
+  targetsOf,
+} from "@/config.ts"
+import { isFailure, PackError } from "@/diagnostics.ts"
+import {
+  assetOutputs,
+  collectAssets,
+  collectFiles,
+  copyAsset,
+  declarationBundles,
+  outputFiles,
+  pack,
+  transform,
+  writeOutputs,
+} from "@/index.ts"
+import { loadManifest, saveManifest } from "@/manifest.ts"
+import { resolveReporter } from "@/reporter.ts"
+import { existsSync, FSWatcher, rmSync, watch as watchFs } from "node:fs"
+import { basename, dirname, join, resolve } from "node:path"
+import { cwd } from "node:process"
+
+/** Handle of a running watch, returned by {@link watch}. */
+export type Watcher = {
+  /** Stop watching, pending rebuilds will be dropped. */
+  close(): void
+}
+
+/** Delay to batch file system events into a single rebuild, in ms. */
+const debounce = 50
+
+/** Sources and assets of a build target as of its latest packing. */
+type TargetState = {
+  options: PackOptions
+  files: Set<string>
+  assets: Set<string>
+}
+
+/**
+ * Repack the changed paths of a build target,
+ * remove outputs of its sources and assets removed since,
+ * and bundle declarations of the entries again when enabled.
+ * The build manifest is updated with the outputs of the changed paths,
+ * so that the next packing removes them when not output any more.
+ */
+async function rebuildTarget(
+  state: TargetState,
+  paths: string[],
+): Promise<void> {
+  const { options } = state
+  const reporter = resolveReporter(options.reporter)
+  const manifest = loadManifest(options)
+  const removed = (message: string) =>
+    reporter.message?.({ level: "success", message })
+  const currentAssets = new Set(await collectAssets(options))
+  for (const file of state.assets) {
+    if (currentAssets.has(file)) continue
+    for (const out of assetOutputs(file, options)) rmSync(out, { force: true })
+    delete manifest.outputs[file]
+    removed(`Removed copies of ${file}`)
+  }
+  const copies = new Set(paths.filter((path) => currentAssets.has(path)))
+  for (const file of currentAssets) {
+    if (!state.assets.has(file)) copies.add(file)
+  }
+  state.assets = currentAssets
+  for (const file of copies) {
+    if (!existsSync(file)) continue
+    copyAsset(file, options)
+    manifest.outputs[file] = assetOutputs(file, options)
+  }
+
+  const current = new Set(await collectFiles(options))
+  for (const file of state.files) {
+    if (current.has(file)) continue
+    for (const out of outputFiles(file, options)) rmSync(out, { force: true })
+    delete manifest.outputs[file]
+    removed(`Removed outputs of ${file}`)
+  }
+
+  const targets = new Set(paths.filter((path) => current.has(path)))
+  for (const file of current) if (!state.files.has(file)) targets.add(file)
+  state.files = current
+  const existing = [...targets].filter((file) => existsSync(file))
+  const diagnostics = await Promise.all(
+    existing.map((file) => transform(file, options)),
+  )
+  for (const diagnostic of diagnostics.flat()) {
+    reporter.diagnostic?.(diagnostic)
+  }
+  for (const file of existing) {
+    manifest.outputs[file] = outputFiles(file, options)
+  }
+  saveManifest(options, manifest)
+  if (options.dts?.bundle) rebundleDeclarations(options)
+}
+
+/** Bundle and write declarations of the entries again, see the dts option. */
+function rebundleDeclarations(options: PackOptions): void {
+  const { outputs, diagnostics } = declarationBundles(options)
+  const reporter = resolveReporter(options.reporter)
+  for (const diagnostic of diagnostics) reporter.diagnostic?.(diagnostic)
+  if (diagnostics.some((d) => isFailure(d, options.warningsAsErrors))) return
+  for (const [entry, files] of outputs) {
+    writeOutputs(entry, { outputs: files, diagnostics: [] }, options)
+  }
+}
+
+/**
+ * Pack once and incrementally repack on changes.
+ *
+ * 1. Only changed or added sources will be transformed again.
+ * 2. Outputs of removed sources will be deleted from outdir.
+ * 3. Sources are matched against the same includes and excludes,
+ *    and assets are copied or deleted in the same way.
+ * 4. When options are loaded from a configuration file (see {@link run}),
+ *    changes of the `library-pack.*` file or the package.json
+ *    it's detected from reload options and repack all.
+ *    Files it extends are not watched.
+ * 5. Each build target is repacked on changes of its own sources,
+ *    see {@link targetsOf}.
+ * 6. All targets are repacked at once when any of them bundles entries,
+ *    see the bundle option.
+ *
+ * @param options options for the packing or configuration file loading.
+ * @returns a handle to stop watching.
+ */
+export async function watch(
+  options?: PackOptions & RunPathOptions,
+): Promise<Watcher> {
+  const { file, root } = options || {}
+  const fromFile = !!file || !!root || !options || !Object.keys(options).length
+  const configDir = file ? dirname(resolve(file)) : resolve(root || cwd())
+
+  let states: TargetState[] = []
+  let srcWatchers: FSWatcher[] = []
+  let configWatcher: FSWatcher | undefined
+  let timer: NodeJS.Timeout | undefined
+  let queue = Promise.resolve()
+  let closed = false
+  let reload = false
+  const changed = new Set<string>()
+
+  async function build() {
+    const loaded = await loadRunOptions(options)
+    await pack(loaded).catch((error) => {
+      // Keep watching, as diagnostics have already been reported.
+      if (!(error instanceof PackError)) throw error
+    })
+    states = await Promise.all(
+      targetsOf(loaded).map(async (target) => {
+        const resolvedOptions = resolveOptions(target)
+        return {
+          options: resolvedOptions,
+          files: new Set(await collectFiles(resolvedOptions)),
+          assets: new Set(await collectAssets(resolvedOptions)),
+        }
+      }),
+    )
+    if (closed) return
+
+    for (const srcWatcher of srcWatchers) srcWatcher.close()
+    const srcdirs = new Set(states.map((s) => resolve(s.options.srcdir!)))
+    const reporter = resolveReporter(states[0]?.options.reporter)
+    srcWatchers = [...srcdirs].map((srcdir) => {
+      reporter.message?.({ level: "info", message: `Watching ${srcdir}` })
+      return watchFs(srcdir, { recursive: true }, (_, name) => {
+        if (name) schedule(join(srcdir, name))
+      })
+    })
+  }
+
+  async function rebuild(paths: string[]) {
+    // Bundles depend on all modules they import, so repack them as a whole.
+    if (states.some((state) => state.options.bundle)) return await build()
+    await Promise.all(states.map((state) => rebuildTarget(state, paths)))
+  }
+
+  function schedule(path?: string) {
+    if (path) changed.add(path)
+    else reload = true
+    clearTimeout(timer)
+    timer = setTimeout(() => {
+      const paths = [...changed]
+      const full = reload
+      changed.clear()
+      reload = false
+      queue = queue
+        .then(() => (full ? build() : rebuild(paths)))
+        .catch((error) => {
+          // Options might fail to reload, so fall back to the given ones.
+          const name = states[0]?.options.reporter ?? options?.reporter
+          const message = error instanceof Error ? error.message : String(error)
+          resolveReporter(name).message?.({ level: "error", message })
+        })
+    }, debounce)
+  }
+
+  await build()
+  if (fromFile) {
+    const current = () => file || detectOptionsFile(root)
+    configWatcher = watchFs(configDir, (_, name) => {
+      if (closed || !name) return
+      const config = current()
+      const detected = config
+        ? basename(config) === name
+        : name.startsWith("library-pack.")
+      if (detected) schedule()
+    })
+  }
+
+  return {
+    close() {
+      closed = true
+      clearTimeout(timer)
+      for (const srcWatcher of srcWatchers) srcWatcher.close()
+      configWatcher?.close()
+    },
+  }
+}
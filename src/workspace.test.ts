@@ -0,0 +1,122 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest"
+import {
+  collectWorkspace,
+  runWorkspace,
+  WorkspacePackage,
+  workspacePatterns,
+} from "./workspace.js"
+
+vi.mock("consola", () => ({
+  default: {
+    success: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}))
+
+describe("collectWorkspace", () => {
+  let root: string
+
+  function writePackage(dir: string, manifest: object, config = true) {
+    mkdirSync(join(root, dir), { recursive: true })
+    writeFileSync(join(root, dir, "package.json"), JSON.stringify(manifest))
+    if (config) writeFileSync(join(root, dir, "library-pack.yaml"), "")
+  }
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "library-pack-"))
+  })
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  test("patterns from pnpm-workspace.yaml and package.json", () => {
+    writeFileSync(join(root, "pnpm-workspace.yaml"), "packages:\n  - libs/*\n")
+    writeFileSync(
+      join(root, "package.json"),
+      `{ "workspaces": { "packages": ["apps/*"] } }`,
+    )
+    expect(workspacePatterns(root)).toEqual(["libs/*", "apps/*"])
+  })
+
+  test("packages with configuration files and their dependencies", async () => {
+    writeFileSync(
+      join(root, "package.json"),
+      `{ "workspaces": ["packages/*", "!packages/ignored"] }`,
+    )
+    writePackage("packages/a", { name: "a", dependencies: { b: "*", c: "*" } })
+    writePackage("packages/b", { name: "b", devDependencies: { lodash: "*" } })
+    writePackage("packages/c", { name: "c" }, false)
+    writePackage("packages/ignored", { name: "ignored" })
+    expect(await collectWorkspace(root)).toEqual([
+      { name: "a", dir: join(root, "packages/a"), dependencies: ["b"] },
+      { name: "b", dir: join(root, "packages/b"), dependencies: [] },
+    ])
+  })
+})
+
+describe("runWorkspace", () => {
+  const pkg = (name: string, ...dependencies: string[]): WorkspacePackage => ({
+    name,
+    dir: `/workspace/${name}`,
+    dependencies,
+  })
+
+  test("run dependencies first", async () => {
+    const order: string[] = []
+    await runWorkspace([pkg("a", "b", "c"), pkg("b", "c"), pkg("c")], (p) =>
+      Promise.resolve(order.push(p.name)),
+    )
+    expect(order).toEqual(["c", "b", "a"])
+  })
+
+  test("run independent packages concurrently", async () => {
+    let running = 0
+    let concurrency = 0
+    await runWorkspace([pkg("a"), pkg("b")], async () => {
+      concurrency = Math.max(concurrency, ++running)
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      running--
+    })
+    expect(concurrency).toBe(2)
+  })
+
+  test("skip dependents of failed packages", async () => {
+    const done: string[] = []
+    const result = runWorkspace([pkg("a", "b"), pkg("b"), pkg("c")], (p) => {
+      if (p.name === "b") return Promise.reject(new Error("Build failed"))
+      done.push(p.name)
+      return Promise.resolve()
+    })
+    await expect(result).rejects.toThrow(
+      "Failed in 1 of 3 packages: b (skipped a)",
+    )
+    expect(done).toEqual(["c"])
+  })
+
+  test("stop early with bail", async () => {
+    const done: string[] = []
+    const task = async (p: WorkspacePackage) => {
+      if (p.name === "a") throw new Error("Build failed")
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      done.push(p.name)
+    }
+    const result = runWorkspace([pkg("a"), pkg("b"), pkg("c", "b")], task, {
+      bail: true,
+    })
+    await expect(result).rejects.toThrow("skipped c")
+    expect(done).toEqual(["b"])
+  })
+
+  test("reject circular dependencies", async () => {
+    const task = vi.fn(() => Promise.resolve())
+    await expect(
+      runWorkspace([pkg("a", "b"), pkg("b", "a")], task),
+    ).rejects.toThrow("Circular workspace dependencies: a -> b -> a")
+    expect(task).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,233 @@
+import { detectOptionsFile } from "@/config.ts"
+import {
+  MessageEvent,
+  Reporter,
+  ReporterName,
+  resolveReporter,
+} from "@/reporter.ts"
+import { glob } from "glob"
+import { existsSync, readFileSync } from "node:fs"
+import { dirname, join, relative } from "node:path"
+import yaml from "yaml"
+
+/** Package of a workspace with a configuration file to pack. */
+export type WorkspacePackage = {
+  /** Name from its package.json, or its directory relative to the root. */
+  name: string
+
+  /** Absolute path to the directory of the package. */
+  dir: string
+
+  /** Names of the workspace packages it depends on. */
+  dependencies: string[]
+}
+
+/** Options for running over all packages of a workspace. */
+export type WorkspaceOptions = {
+  /** Whether to run for all packages of the workspace in root. */
+  workspace?: boolean
+
+  /** Stop starting other packages after the first failure, default to false. */
+  bail?: boolean
+
+  /** Reporter of the summary line of each package, see {@link Reporter}. */
+  reporter?: ReporterName | Reporter
+}
+
+/** Error thrown when packages of the workspace fail or can't be ordered. */
+export class WorkspaceError extends Error {
+  /** Names of the failed packages. */
+  readonly failures: string[]
+
+  constructor(message: string, failures: string[] = []) {
+    super(message)
+    this.name = "WorkspaceError"
+    this.failures = failures
+  }
+}
+
+/** Fields of package.json listing dependencies to order packages by. */
+const dependencyFields = [
+  "dependencies",
+  "devDependencies",
+  "peerDependencies",
+  "optionalDependencies",
+]
+
+/**
+ * Glob patterns of the packages of the workspace in the root,
+ * from the "packages" of pnpm-workspace.yaml and the "workspaces"
+ * of package.json, either as an array or as { packages: [...] }.
+ *
+ * @param root root directory of the workspace.
+ */
+export function workspacePatterns(root: string): string[] {
+  const patterns: string[] = []
+  const pnpm = join(root, "pnpm-workspace.yaml")
+  if (existsSync(pnpm)) {
+    const config = yaml.parse(readFileSync(pnpm, "utf-8"))
+    patterns.push(...(config?.packages || []))
+  }
+  const manifest = join(root, "package.json")
+  if (existsSync(manifest)) {
+    const { workspaces } = JSON.parse(readFileSync(manifest, "utf-8"))
+    patterns.push(...(Array.isArray(workspaces) ? workspaces : []))
+    patterns.push(...(workspaces?.packages || []))
+  }
+  return patterns
+}
+
+/**
+ * Collect packages of the workspace in the root.
+ *
+ * 1. Packages are matched by {@link workspacePatterns},
+ *    patterns starting with "!" exclude packages.
+ * 2. Only packages with a configuration file are collected,
+ *    see {@link detectOptionsFile}.
+ * 3. Dependencies are limited to the collected packages.
+ *
+ * @param root root directory of the workspace.
+ * @returns packages sorted by their directories.
+ */
+export async function collectWorkspace(
+  root: string,
+): Promise<WorkspacePackage[]> {
+  const patterns = workspacePatterns(root)
+  const toManifest = (pattern: string) =>
+    `${pattern.replace(/\/+$/, "")}/package.json`
+  const includes = patterns.filter((pattern) => !pattern.startsWith("!"))
+  const excludes = patterns
+    .filter((pattern) => pattern.startsWith("!"))
+    .map((pattern) => toManifest(pattern.slice(1)))
+  const files = await glob(includes.map(toManifest), {
+    cwd: root,
+    ignore: ["**/node_modules/**", ...excludes],
+    absolute: true,
+  })
+
+  const found = files
+    .sort()
+    .map((file) => ({ dir: dirname(file), manifest: readJson(file) }))
+    .filter(({ dir }) => detectOptionsFile(dir))
+    .map(({ dir, manifest }) => ({
+      dir,
+      manifest,
+      name: String(manifest.name || relative(root, dir) || "."),
+    }))
+  const names = new Set(found.map(({ name }) => name))
+  return found.map(({ dir, manifest, name }) => {
+    const dependencies = dependencyFields.flatMap((field) =>
+      Object.keys((manifest[field] as object) || {}),
+    )
+    return {
+      name,
+      dir,
+      dependencies: [...new Set(dependencies)].filter(
+        (dependency) => dependency !== name && names.has(dependency),
+      ),
+    }
+  })
+}
+
+/** Read the package.json file as an object. */
+function readJson(file: string): Record<string, unknown> {
+  return JSON.parse(readFileSync(file, "utf-8"))
+}
+
+/** Throw a {@link WorkspaceError} when packages depend on each other. */
+function checkCycles(packages: WorkspacePackage[]): void {
+  const byName = new Map(packages.map((pkg) => [pkg.name, pkg]))
+  const done = new Set<string>()
+  const visit = (name: string, chain: string[]) => {
+    if (chain.includes(name)) {
+      const cycle = [...chain.slice(chain.indexOf(name)), name].join(" -> ")
+      throw new WorkspaceError(`Circular workspace dependencies: ${cycle}`)
+    }
+    if (done.has(name)) return
+    for (const dependency of byName.get(name)?.dependencies || []) {
+      visit(dependency, [...chain, name])
+    }
+    done.add(name)
+  }
+  for (const pkg of packages) visit(pkg.name, [])
+}
+
+/**
+ * Run the task over packages of a workspace in dependency order.
+ *
+ * 1. Each package starts as soon as all its dependencies succeed,
+ *    so independent packages run concurrently.
+ * 2. Packages whose dependencies fail are skipped.
+ * 3. With bail, no more packages start after the first failure.
+ * 4. Each package gets a summary line with its name.
+ *
+ * Rejects with a {@link WorkspaceError} when any package fails,
+ * or packages depend on each other circularly.
+ *
+ * @param packages packages of the workspace, see {@link collectWorkspace}.
+ * @param task task to run for each package.
+ * @param options options containing whether to bail and the reporter.
+ */
+export async function runWorkspace(
+  packages: WorkspacePackage[],
+  task: (pkg: WorkspacePackage) => Promise<unknown>,
+  options: WorkspaceOptions = {},
+): Promise<void> {
+  const reporter = resolveReporter(options.reporter)
+  const report = (level: MessageEvent["level"], message: string) =>
+    reporter.message?.({ level, message })
+  if (packages.length === 0) {
+    report("warn", "No packages with configuration files in the workspace")
+    return
+  }
+  checkCycles(packages)
+  const byName = new Map(packages.map((pkg) => [pkg.name, pkg]))
+  const runs = new Map<string, Promise<boolean>>()
+  const failures: string[] = []
+  const skipped: string[] = []
+
+  const skip = (pkg: WorkspacePackage, reason: string) => {
+    skipped.push(pkg.name)
+    report("warn", `${pkg.name}: skipped, ${reason}`)
+    return false
+  }
+  const runPackage = async (pkg: WorkspacePackage): Promise<boolean> => {
+    const results = await Promise.all(
+      pkg.dependencies.map((name) => schedule(byName.get(name)!)),
+    )
+    if (results.includes(false)) return skip(pkg, "as its dependencies failed")
+    if (options.bail && failures.length > 0) {
+      return skip(pkg, "as the build stopped early")
+    }
+
+    const start = performance.now()
+    try {
+      await task(pkg)
+      const duration = Math.round(performance.now() - start)
+      report("success", `${pkg.name}: done in ${duration}ms`)
+      return true
+    } catch (error) {
+      failures.push(pkg.name)
+      const message = error instanceof Error ? error.message : String(error)
+      report("error", `${pkg.name}: ${message}`)
+      return false
+    }
+  }
+  const schedule = (pkg: WorkspacePackage): Promise<boolean> => {
+    let result = runs.get(pkg.name)
+    if (!result) {
+      result = runPackage(pkg)
+      runs.set(pkg.name, result)
+    }
+    return result
+  }
+
+  await Promise.all(packages.map(schedule))
+  if (failures.length > 0) {
+    const message =
+      `Failed in ${failures.length} of ${packages.length} packages: ` +
+      failures.join(", ") +
+      (skipped.length > 0 ? ` (skipped ${skipped.join(", ")})` : "")
+    throw new WorkspaceError(message, failures)
+  }
+}